@@ -1,4 +1,98 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, {
+  useEffect,
+  useEffectEvent,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  DEFAULT_PARAMS,
+  INITIAL_STATE,
+  clamp01,
+  poolToState,
+  routeDose,
+  step,
+  type Alpha4b2State,
+  type Integrator,
+  type ModelParams,
+  type ReceptorPool,
+  type SimState,
+  type TracePoint,
+} from "./engine/model";
+import {
+  DEFAULT_CONFIG,
+  decodeConfigHash,
+  type SessionConfig,
+} from "./engine/config";
+import {
+  PRESETS,
+  type InitialState,
+  type Preset,
+  type PresetDef,
+} from "./engine/presets";
+import { findPreset } from "./engine/presetLibrary";
+import { createRng, randomPuff, randomSeed, type Rng } from "./engine/random";
+import { FIXED_DT_MIN, MAX_FRAME_MS, planSteps } from "./engine/clock";
+import { doseBetween, type DosingSchedule } from "./engine/schedule";
+import {
+  DOSE_ROUTES,
+  ROUTES,
+  type Delivery,
+  type DoseRoute,
+} from "./engine/routes";
+import {
+  INITIAL_DETECTOR,
+  type DetectorState,
+  appendEvents,
+  detectEvents,
+  noteEvent,
+  paramChangeEvents,
+  removeEvent,
+  type SimEvent,
+} from "./engine/events";
+import {
+  DRUGS,
+  DRUG_IDS,
+  drugOccupancy,
+  type DrugId,
+  type DrugLevels,
+  type DrugRegimen,
+} from "./engine/drugs";
+import { appendHistory, pointAt, truncateAfter } from "./engine/history";
+import { lowerBound } from "./engine/math";
+import {
+  createReplay,
+  type Replay,
+  type ReplayAction,
+  type ReplayEntry,
+} from "./engine/replay";
+import type { SessionSnapshot } from "./engine/session";
+import { advance } from "./engine/simulate";
+import { runMeta, traceToCsv, traceToJson } from "./engine/traceExport";
+import { downloadText } from "./lib/download";
+import {
+  clearSession,
+  loadPresets,
+  loadSession,
+  savePresets,
+  saveSession,
+} from "./lib/storage";
+import { PARAM_SPECS } from "./engine/paramSpec";
+import ChronicPanel from "./components/ChronicPanel";
+import ComparePanel from "./components/ComparePanel";
+import DayCyclePanel from "./components/DayCyclePanel";
+import DrugControls from "./components/DrugControls";
+import EventLog from "./components/EventLog";
+import FigureExport from "./components/FigureExport";
+import ParamsPanel from "./components/ParamsPanel";
+import PresetLibrary from "./components/PresetLibrary";
+import ReplayPanel from "./components/ReplayPanel";
+import ScheduleEditor from "./components/ScheduleEditor";
+import Scrubber from "./components/Scrubber";
+import SessionPanel from "./components/SessionPanel";
+import SweepPanel from "./components/SweepPanel";
+import Timeline from "./components/Timeline";
+import TreatmentPanel from "./components/TreatmentPanel";
 
 /**
  * V1.1 — Estilo “Stahl” + parámetro visible: ventana ~45 min desensibilizado
@@ -24,34 +118,109 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 // └──────────────────────────────────────────────────────────────────────────┘
 
 // ---------- Helpers ----------
-const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
-
-type Alpha4b2State = "basal" | "activado" | "desensibilizado";
-
-type ModelParams = {
-  nicotineHalfLifeMin: number; // proxy
-  actThreshold: number;
-  desensRateDA: number;
-  desensRateGABA: number;
-  alpha7Threshold: number;
-  desensWindowMin: number; // NUEVO: ventana típica de desensibilización (~45 min)
-};
-
-const DEFAULT_PARAMS: ModelParams = {
-  nicotineHalfLifeMin: 120,
-  actThreshold: 0.15,
-  desensRateDA: 0.03,
-  desensRateGABA: 0.04,
-  alpha7Threshold: 0.08,
-  desensWindowMin: 45,
-};
-
-type ReceptorPool = { basal: number; activado: number; desens: number };
-
-function normalizePool(p: ReceptorPool): ReceptorPool {
-  const s = p.basal + p.activado + p.desens;
-  if (s <= 0) return { basal: 1, activado: 0, desens: 0 };
-  return { basal: p.basal / s, activado: p.activado / s, desens: p.desens / s };
+// Velocidades: 1× = 1 min simulado por segundo real
+const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 5, 10, 30, 60, 120];
+
+// Deshacer: pasos guardados y ventana en la que los valores de un mismo
+// slider cuentan como un solo paso
+const UNDO_LIMIT = 50;
+const UNDO_COALESCE_MS = 1000;
+
+// Autoguardado en el navegador (además de al cerrar la pestaña)
+const AUTOSAVE_MS = 5000;
+
+// Clave para agrupar en un solo paso de deshacer (null = no se agrupa)
+function coalesceKey(a: ReplayAction): string | null {
+  if (a.type === "params") return "params";
+  if (a.type === "settings") return Object.keys(a.changes).join(",");
+  return null;
+}
+
+// Minuto en que el pool entró en desensibilizado (null si no lo está)
+function desensStart(
+  start: number | null,
+  pool: ReceptorPool,
+  t: number,
+): number | null {
+  if (poolToState(pool) !== "desensibilizado") return null;
+  if (start == null || start > t) return t;
+  return start;
+}
+
+// Lo mismo, reconstruido desde las instantáneas (al rebobinar a `t`)
+function desensStartAt(
+  snaps: readonly SimState[],
+  t: number,
+  pick: (s: SimState) => ReceptorPool,
+): number | null {
+  let start: number | null = null;
+  for (let i = lowerBound(snaps, t + 1e-9) - 1; i >= 0; i--) {
+    if (poolToState(pick(snaps[i])) !== "desensibilizado") break;
+    start = snaps[i].t;
+  }
+  return start;
+}
+
+// Estado del modelo al arrancar un escenario
+function simFromInitial(init: InitialState): SimState {
+  return {
+    ...INITIAL_STATE,
+    nicotine: init.nicotine,
+    plasma: init.nicotine,
+    poolDA: init.poolDA,
+    poolGABA: init.poolGABA,
+  };
+}
+
+// Pie de figura: instante, escenario y parámetros distintos de los de defecto
+function figureCaption(
+  t: number,
+  cfg: SessionConfig,
+  presetLabel: string,
+): string[] {
+  const { params } = cfg;
+  const changed = PARAM_SPECS.filter(
+    (s) => params[s.key] !== DEFAULT_PARAMS[s.key],
+  ).map((s) => `${s.label} = ${params[s.key]} ${s.unit}`);
+  return [
+    [
+      `t = ${t.toFixed(1)} min`,
+      presetLabel,
+      `vía: ${ROUTES[cfg.route].label}${cfg.patchOn ? " + parche" : ""}`,
+      `integrador ${params.integrator.toUpperCase()}`,
+      params.pkMode ? "PK plasma→cerebro" : "sin PK",
+      ...(params.chronicMode ? ["modo crónico"] : []),
+      `semilla ${cfg.seed}`,
+    ].join(" · "),
+    changed.length > 0
+      ? `Parámetros modificados: ${changed.join("; ")}`
+      : "Parámetros por defecto",
+  ];
+}
+
+// Configuración de arranque: la del enlace (#cfg=…), si no la sesión
+// autoguardada y si no la por defecto
+function readBootConfig(): {
+  config: SessionConfig;
+  session: SessionSnapshot | null;
+  error: string | null;
+} {
+  try {
+    const config = decodeConfigHash(window.location.hash);
+    if (config) return { config, session: null, error: null };
+    const session = loadSession();
+    return {
+      config: session?.config ?? DEFAULT_CONFIG,
+      session,
+      error: null,
+    };
+  } catch (e) {
+    return {
+      config: DEFAULT_CONFIG,
+      session: null,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
 }
 
 function receptorColor(state: Alpha4b2State) {
@@ -67,130 +236,6 @@ function receptorColor(state: Alpha4b2State) {
   }
 }
 
-function poolToState(p: ReceptorPool): Alpha4b2State {
-  if (p.desens >= p.basal && p.desens >= p.activado) return "desensibilizado";
-  if (p.activado >= p.basal && p.activado >= p.desens) return "activado";
-  return "basal";
-}
-
-function stepAlpha4b2(
-  dtMin: number,
-  nic: number,
-  pool: ReceptorPool,
-  params: ModelParams,
-  desensRate: number,
-) {
-  let p = { ...pool };
-
-  // Recuperación definida por ventana: si ventana=45 min, recover≈1/45 por min
-  // (tiempo característico; en un modelo de fracciones esto es didáctico pero muy útil)
-  const recoverRate = 1 / Math.max(1, params.desensWindowMin);
-
-  const nicDrive = clamp01(
-    (nic - params.actThreshold) / (1 - params.actThreshold),
-  );
-  const toActive =
-    p.basal * (nic > params.actThreshold ? 0.25 * nicDrive : 0) * dtMin;
-  p.basal -= toActive;
-  p.activado += toActive;
-
-  const toDesens =
-    p.activado * (nic > params.actThreshold ? desensRate : 0) * dtMin;
-  p.activado -= toDesens;
-  p.desens += toDesens;
-
-  // Recuperación: más rápida cuando nicotina está baja; más lenta si sigue alta
-  const lowNic = nic < params.actThreshold * 0.9;
-  const k = lowNic ? recoverRate : recoverRate * 0.35;
-  const toBasal = p.desens * k * dtMin;
-  p.desens -= toBasal;
-  p.basal += toBasal;
-
-  return normalizePool(p);
-}
-
-type ModelOut = {
-  nicotine: number;
-  alpha7AchOn: boolean;
-  alpha7GluOn: boolean;
-  achDrive: number;
-  gluDrive: number;
-  poolDA: ReceptorPool;
-  poolGABA: ReceptorPool;
-  gaba: number;
-  da: number;
-  direct: number;
-  indirect: number;
-};
-
-function stepModel(
-  dtMin: number,
-  nicotine: number,
-  poolDA: ReceptorPool,
-  poolGABA: ReceptorPool,
-  puffNow: boolean,
-  params: ModelParams,
-): ModelOut {
-  // 1) Entrada + decaimiento nicotina
-  let nic = nicotine;
-  if (puffNow) nic = clamp01(nic + 0.25);
-
-  const decay = Math.pow(0.5, dtMin / params.nicotineHalfLifeMin);
-  nic = clamp01(nic * decay);
-
-  // 2) α7 presinápticos separados
-  const alpha7AchOn = nic > params.alpha7Threshold;
-  const alpha7GluOn = nic > params.alpha7Threshold;
-
-  // Drives (proxies): facilitan entrada excitatoria hacia DA
-  const achDrive = clamp01(0.35 + (alpha7AchOn ? 0.45 * nic : 0.05));
-  const gluDrive = clamp01(0.3 + (alpha7GluOn ? 0.55 * nic : 0.05));
-
-  // 3) α4β2 explícito en DA (vía directa) y en GABA (vía indirecta)
-  const nextPoolDA = stepAlpha4b2(
-    dtMin,
-    nic,
-    poolDA,
-    params,
-    params.desensRateDA,
-  );
-  const nextPoolGABA = stepAlpha4b2(
-    dtMin,
-    nic,
-    poolGABA,
-    params,
-    params.desensRateGABA,
-  );
-
-  // 4) Vía directa / indirecta
-  const direct = clamp01(
-    0.15 + 0.95 * nextPoolDA.activado * (0.55 * achDrive + 0.65 * gluDrive),
-  );
-
-  // GABA alto cuando activación GABA-α4β2, bajo cuando desensibilizado
-  const gaba = clamp01(
-    0.25 + 0.95 * nextPoolGABA.activado - 0.85 * nextPoolGABA.desens,
-  );
-  const indirect = clamp01(0.15 + 0.9 * (1 - gaba));
-
-  // Dopamina final
-  const da = clamp01(0.1 + 0.75 * direct + 0.35 * indirect);
-
-  return {
-    nicotine: nic,
-    alpha7AchOn,
-    alpha7GluOn,
-    achDrive,
-    gluDrive,
-    poolDA: nextPoolDA,
-    poolGABA: nextPoolGABA,
-    gaba,
-    da,
-    direct,
-    indirect,
-  };
-}
-
 function Pill({ children }: { children: React.ReactNode }) {
   return (
     <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700 border border-slate-200">
@@ -219,7 +264,32 @@ function Bar({ label, value }: { label: string; value: number }) {
   );
 }
 
-type Preset = "puff" | "repetido" | "abstinencia";
+// Ocupación de α4β2 por cada fármaco, bajo el receptor
+function DrugLabels({
+  x,
+  y,
+  ids,
+  occupancy,
+}: {
+  x: number;
+  y: number;
+  ids: readonly DrugId[];
+  occupancy: DrugLevels;
+}) {
+  return ids.map((id, i) => (
+    <text
+      key={id}
+      x={x}
+      y={y + i * 13}
+      textAnchor="middle"
+      fontSize="10"
+      fontWeight="700"
+      fill={DRUGS[id].color}
+    >
+      {DRUGS[id].label} {Math.round(occupancy[id] * 100)}%
+    </text>
+  ));
+}
 
 function RecoveryClock({
   cx,
@@ -323,220 +393,624 @@ function RecoveryClock({
 }
 
 export default function NicotineCircuitV11() {
-  const [params, setParams] = useState<ModelParams>(DEFAULT_PARAMS);
-
-  // estado del modelo
-  const [nicotine, setNicotine] = useState(0);
-  const [poolDA, setPoolDA] = useState<ReceptorPool>({
-    basal: 1,
-    activado: 0,
-    desens: 0,
-  });
-  const [poolGABA, setPoolGABA] = useState<ReceptorPool>({
-    basal: 1,
-    activado: 0,
-    desens: 0,
-  });
-
-  const [alpha7AchOn, setAlpha7AchOn] = useState(false);
-  const [alpha7GluOn, setAlpha7GluOn] = useState(false);
-  const [achDrive, setAchDrive] = useState(0.35);
-  const [gluDrive, setGluDrive] = useState(0.3);
-
-  const [gaba, setGaba] = useState(0.5);
-  const [da, setDa] = useState(0.2);
-  const [direct, setDirect] = useState(0.2);
-  const [indirect, setIndirect] = useState(0.2);
+  const [boot] = useState(readBootConfig);
 
-  //const [puffTimes, setPuffTimes] = useState<number[]>([]);
+  // El enlace (#cfg=…) se aplica una vez: sin el hash, las recargas
+  // siguientes restauran la sesión autoguardada
+  useEffect(() => {
+    const { hash, pathname, search } = window.location;
+    if (hash) window.history.replaceState(null, "", pathname + search);
+  }, []);
+  const [params, setParams] = useState<ModelParams>(boot.config.params);
+
+  // estado del modelo (una sola fuente: engine/model)
+  const [sim, setSim] = useState<SimState>(
+    () => boot.session?.sim ?? simFromInitial(boot.config.initial),
+  );
+  const simRef = useRef<SimState>(sim);
 
-  const [puffsPerMin, setPuffsPerMin] = useState(0);
-  const [preset, setPreset] = useState<Preset>("puff");
+  // Rebobinar: instantáneas del estado y minuto mostrado (null = presente)
+  const [snapshots, setSnapshots] = useState<SimState[]>(
+    () => boot.session?.snapshots ?? [],
+  );
+  const [scrubT, setScrubT] = useState<number | null>(null);
+  const scrubState = scrubT == null ? null : pointAt(snapshots, scrubT);
+  const view = scrubState ?? sim;
+
+  const {
+    t: simMin,
+    nicotine,
+    plasma,
+    poolDA,
+    poolGABA,
+    alpha7AchOn,
+    alpha7GluOn,
+    achDrive,
+    gluDrive,
+    gaba,
+    da,
+    direct,
+    indirect,
+    density,
+    drugs,
+    craving,
+  } = view;
+
+  const [puffsPerMin, setPuffsPerMin] = useState(boot.config.puffsPerMin);
+  const [schedule, setSchedule] = useState<DosingSchedule>(
+    boot.config.schedule,
+  );
+  const [initial, setInitial] = useState<InitialState>(boot.config.initial);
+
+  // Vía de administración (dosis discretas) + parche on/off
+  const [route, setRoute] = useState<DoseRoute>(boot.config.route);
+  const [patchOn, setPatchOn] = useState(boot.config.patchOn);
+  const [patchDose, setPatchDose] = useState(boot.config.patchDose);
+  const [autoPuff, setAutoPuff] = useState(boot.config.autoPuff);
+  const [drugRegimen, setDrugRegimen] = useState<DrugRegimen>(
+    boot.config.drugs,
+  );
+  const delivery = useMemo<Delivery>(
+    () => ({
+      route,
+      patchRate: patchOn ? patchDose : 0,
+      drugs: drugRegimen,
+    }),
+    [route, patchOn, patchDose, drugRegimen],
+  );
+  const puffDose = routeDose(route, params);
 
-  const [isRunning, setIsRunning] = useState(true);
-  const [simMin, setSimMin] = useState(0);
+  // Fármacos presentes en α4β2 (chips del circuito y de la cabecera)
+  const occupancy = drugOccupancy(nicotine, drugs);
+  const drugsOnReceptor: DrugId[] = DRUG_IDS.filter(
+    (id) => occupancy[id] > 0.01,
+  );
+  const [preset, setPreset] = useState<Preset>(boot.config.preset);
+  const [library, setLibrary] = useState<PresetDef[]>(loadPresets);
+  const presetLabel = findPreset(library, preset)?.label ?? "Personalizado";
+
+  // Una sesión restaurada arranca en pausa
+  const [isRunning, setIsRunning] = useState(!boot.session);
+  const [speed, setSpeed] = useState(1); // min simulados por segundo real
+
+  // Semilla de los puffs aleatorios (reproducible en clase)
+  const [seed, setSeed] = useState(boot.config.seed);
+  const rngRef = useRef<Rng>(createRng(boot.config.seed));
+
+  // Base común de la comparación A/B: pauta, semilla y estado inicial del preset
+  const compareBase = useMemo(
+    () => ({
+      schedule,
+      seed,
+      dtMin: FIXED_DT_MIN,
+      initial: simFromInitial(initial),
+      delivery,
+    }),
+    [schedule, seed, initial, delivery],
+  );
 
   const rafRef = useRef<number | null>(null);
+  const circuitSvgRef = useRef<SVGSVGElement>(null);
+  const timelineSvgRef = useRef<SVGSVGElement>(null);
   const lastT = useRef<number | null>(null);
+  const accRef = useRef(0); // min de simulación pendientes (< 1 paso fijo)
 
-  const [desensStartDA, setDesensStartDA] = useState<number | null>(null);
-  const [desensStartG, setDesensStartG] = useState<number | null>(null);
+  const [desensStartDA, setDesensStartDA] = useState<number | null>(
+    boot.session?.desensStartDA ?? null,
+  );
+  const [desensStartG, setDesensStartG] = useState<number | null>(
+    boot.session?.desensStartG ?? null,
+  );
+
+  const [trace, setTrace] = useState<TracePoint[]>(
+    () => boot.session?.trace ?? [],
+  );
+  const [events, setEvents] = useState<SimEvent[]>(
+    () => boot.session?.events ?? [],
+  );
+  const detectorRef = useRef<DetectorState>(
+    boot.session?.detector ?? INITIAL_DETECTOR,
+  );
+  const sliderFrom = useRef<ModelParams | null>(null); // inicio de un arrastre
+
+  // Grabación (escenario de partida + acciones) y reproducción en curso
+  const [recording, setRecording] = useState<{
+    config: SessionConfig;
+    entries: ReplayEntry[];
+  } | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const playRef = useRef<{ replay: Replay; index: number } | null>(null);
+  const [playIndex, setPlayIndex] = useState<number | null>(null);
+  const [stopAtPauses, setStopAtPauses] = useState(true);
+
+  // Deshacer/rehacer: sesiones completas antes/después de cada acción
+  const [undo, setUndo] = useState<{
+    past: SessionSnapshot[];
+    future: SessionSnapshot[];
+  }>({ past: [], future: [] });
+  const lastCheckpoint = useRef<{ key: string | null; at: number } | null>(
+    null,
+  );
 
-  const [trace, setTrace] = useState<
-    {
-      t: number;
-      da: number;
-      gaba: number;
-      nic: number;
-      desAll: number;
-      puff: boolean;
-    }[]
-  >([]);
+  // En el pasado el reloj de recuperación sale de las instantáneas
+  const clockStartDA = scrubState
+    ? desensStartAt(snapshots, scrubState.t, (s) => s.poolDA)
+    : desensStartDA;
+  const clockStartG = scrubState
+    ? desensStartAt(snapshots, scrubState.t, (s) => s.poolGABA)
+    : desensStartG;
 
   const stateDA = useMemo(() => poolToState(poolDA), [poolDA]);
   const stateG = useMemo(() => poolToState(poolGABA), [poolGABA]);
 
-  const resetTimeline = () => {
+  // Actualiza estado + ref (el loop lee la ref para no reiniciarse cada frame)
+  const commitSim = (next: SimState) => {
+    simRef.current = next;
+    setSim(next);
+    setDesensStartDA((start) => desensStart(start, next.poolDA, next.t));
+    setDesensStartG((start) => desensStart(start, next.poolGABA, next.t));
+  };
+
+  // Historial + detección de eventos sobre los puntos nuevos
+  const recordTrace = (points: TracePoint[], states: SimState[]) => {
+    setTrace((prev) => appendHistory(prev, points));
+    setSnapshots((prev) => appendHistory(prev, states));
+    const { events: found, state } = detectEvents(detectorRef.current, points);
+    detectorRef.current = state;
+    const tNow = points.at(-1)?.t ?? 0;
+    setEvents((prev) => appendEvents(prev, found, tNow));
+  };
+
+  const clearHistory = () => {
     setTrace([]);
-    setSimMin(0);
+    setSnapshots([]);
+    setScrubT(null);
+    setEvents([]);
+    detectorRef.current = INITIAL_DETECTOR;
+  };
+
+  // Rebobinar pausa la simulación; volver al presente no la reanuda
+  const scrubTo = (t: number | null) => {
+    if (t != null && isRunning) act({ type: "pause" });
+    setScrubT(t);
+  };
+
+  const toggleRunning = () => act({ type: isRunning ? "pause" : "resume" });
+
+  // Descarta lo posterior a `to` y sigue simulando desde ahí
+  const continueFrom = (to: number) => {
+    const snap = pointAt(snapshots, to);
+    if (!snap) return;
+    const t = snap.t;
+    setTrace((prev) => truncateAfter(prev, t));
+    setSnapshots((prev) => truncateAfter(prev, t));
+    setEvents((prev) => prev.filter((e) => e.t <= t || e.kind === "note"));
+    detectorRef.current = INITIAL_DETECTOR;
+    commitSim(snap);
+    setDesensStartDA(desensStartAt(snapshots, t, (s) => s.poolDA));
+    setDesensStartG(desensStartAt(snapshots, t, (s) => s.poolGABA));
+    setScrubT(null);
     lastT.current = null;
+    accRef.current = 0;
+    setIsRunning(true);
+  };
 
-    if (rafRef.current) {
-      cancelAnimationFrame(rafRef.current);
-      rafRef.current = null;
-    }
+  const logParamChange = (prev: ModelParams, next: ModelParams) => {
+    const t = simRef.current.t;
+    const found = paramChangeEvents(prev, next, t);
+    setEvents((ev) => appendEvents(ev, found, t));
   };
 
-  const applyPreset = (p: Preset) => {
-    resetTimeline();
-    setPreset(p);
+  const updateParams = (next: ModelParams) =>
+    act({ type: "params", params: next });
 
-    if (p === "puff") {
-      setPuffsPerMin(0);
-      setNicotine(0);
-      setPoolDA({ basal: 1, activado: 0, desens: 0 });
-      setPoolGABA({ basal: 1, activado: 0, desens: 0 });
+  // El slider registra un solo evento al soltarlo (no uno por valor)
+  const endSliderDrag = () => {
+    if (sliderFrom.current) {
+      act({ type: "params", params, from: sliderFrom.current });
     }
+    sliderFrom.current = null;
+  };
+
+  const resetTimeline = () => {
+    clearHistory();
+    lastT.current = null;
+    accRef.current = 0;
+    rngRef.current = createRng(seed);
 
-    if (p === "repetido") {
-      setPuffsPerMin(0.18);
-      setNicotine(0);
-      setPoolDA({ basal: 1, activado: 0, desens: 0 });
-      setPoolGABA({ basal: 1, activado: 0, desens: 0 });
+    if (rafRef.current) {
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
     }
+  };
 
-    if (p === "abstinencia") {
-      setPuffsPerMin(0);
-      setNicotine(0.02);
-      setPoolDA(normalizePool({ basal: 0.35, activado: 0.05, desens: 0.6 }));
-      setPoolGABA(normalizePool({ basal: 0.4, activado: 0.05, desens: 0.55 }));
+  const loadInitial = (init: InitialState) => {
+    setInitial(init);
+    commitSim({ ...simFromInitial(init), t: 0 });
+  };
+
+  // Sin params/pauta/vía en el preset se conservan los actuales
+  const applyPreset = (p: PresetDef) => {
+    resetTimeline();
+    setPreset(p.id);
+    setPuffsPerMin(p.puffsPerMin);
+    if (p.params) setParams(p.params);
+    if (p.schedule) setSchedule(p.schedule);
+    if (p.delivery) {
+      setRoute(p.delivery.route);
+      setPatchOn(p.delivery.patchOn);
+      setPatchDose(p.delivery.patchDose);
+      setAutoPuff(p.delivery.autoPuff);
+      setDrugRegimen(p.delivery.drugs);
     }
+    loadInitial(p.initial);
   };
 
   const reset = () => {
-    setNicotine(0);
-    setPoolDA({ basal: 1, activado: 0, desens: 0 });
-    setPoolGABA({ basal: 1, activado: 0, desens: 0 });
-    setAlpha7AchOn(false);
-    setAlpha7GluOn(false);
-    setAchDrive(0.35);
-    setGluDrive(0.3);
-    setGaba(0.5);
-    setDa(0.2);
-    setDirect(0.2);
-    setIndirect(0.2);
+    commitSim(INITIAL_STATE);
+    setInitial(PRESETS.puff.initial);
     setPuffsPerMin(0);
     setPreset("puff");
-    setSimMin(0);
-    setTrace([]);
+    clearHistory();
+    rngRef.current = createRng(seed);
+  };
+
+  const currentConfig = (): SessionConfig => ({
+    version: DEFAULT_CONFIG.version,
+    preset,
+    params,
+    puffsPerMin,
+    seed,
+    initial,
+    schedule: [...schedule],
+    route,
+    patchOn,
+    patchDose,
+    autoPuff,
+    drugs: drugRegimen,
+  });
+
+  const setConfig = (cfg: SessionConfig) => {
+    setPreset(cfg.preset);
+    setParams(cfg.params);
+    setPuffsPerMin(cfg.puffsPerMin);
+    setSeed(cfg.seed);
+    rngRef.current = createRng(cfg.seed);
+    setSchedule(cfg.schedule);
+    setRoute(cfg.route);
+    setPatchOn(cfg.patchOn);
+    setPatchDose(cfg.patchDose);
+    setAutoPuff(cfg.autoPuff);
+    setDrugRegimen(cfg.drugs);
+  };
+
+  // Restaura un escenario completo (enlace o archivo importado)
+  const applyConfig = (cfg: SessionConfig) => {
+    resetTimeline();
+    setConfig(cfg);
+    loadInitial(cfg.initial);
+  };
+
+  const currentSession = (): SessionSnapshot => ({
+    config: currentConfig(),
+    sim: simRef.current,
+    trace,
+    snapshots,
+    events,
+    desensStartDA,
+    desensStartG,
+    detector: detectorRef.current,
+  });
+
+  // Vuelve a una sesión guardada (deshacer/rehacer)
+  const restoreSession = (s: SessionSnapshot) => {
+    stopPlayback();
+    resetTimeline();
+    setConfig(s.config);
+    setInitial(s.config.initial);
+    commitSim(s.sim);
+    setTrace(s.trace);
+    setSnapshots(s.snapshots);
+    setEvents(s.events);
+    setDesensStartDA(s.desensStartDA);
+    setDesensStartG(s.desensStartG);
+    detectorRef.current = s.detector;
+  };
+
+  // Nueva semilla: se vuelve al estado inicial de la config actual (sin
+  // reaplicar el preset) para que la curva sea comparable y reproducible
+  const changeSeed = (value: number) => {
+    resetTimeline();
+    loadInitial(initial);
+    setSeed(value);
+    rngRef.current = createRng(value);
+  };
+
+  // El campo de semilla se edita en borrador y se aplica al salir o con
+  // Enter (cada cambio reinicia la simulación y es un paso de deshacer)
+  const [seedDraft, setSeedDraft] = useState<string | null>(null);
+  const commitSeed = () => {
+    if (seedDraft == null) return;
+    const v = parseInt(seedDraft, 10);
+    setSeedDraft(null);
+    if (Number.isFinite(v) && v >= 0 && v >>> 0 !== seed) {
+      act({ type: "seed", seed: v >>> 0 });
+    }
   };
 
   const doPuff = () => {
-    const out = stepModel(0, nicotine, poolDA, poolGABA, true, params);
-    setNicotine(out.nicotine);
-    setPoolDA(out.poolDA);
-    setPoolGABA(out.poolGABA);
-    setAlpha7AchOn(out.alpha7AchOn);
-    setAlpha7GluOn(out.alpha7GluOn);
-    setAchDrive(out.achDrive);
-    setGluDrive(out.gluDrive);
-    setGaba(out.gaba);
-    setDa(out.da);
-    setDirect(out.direct);
-    setIndirect(out.indirect);
+    setScrubT(null);
+    const s = simRef.current;
+    commitSim({
+      ...step(s, { dtMin: 0, dose: puffDose, delivery }, params),
+      t: s.t,
+    });
+  };
+
+  // Historial del timeline + parámetros y metadatos, para hoja de cálculo / Python
+  const exportTrace = (format: "csv" | "json") => {
+    const meta = runMeta(trace, currentConfig(), FIXED_DT_MIN);
+    if (format === "csv") {
+      downloadText("trace-nicotina.csv", traceToCsv(trace, meta), "text/csv");
+    } else {
+      downloadText("trace-nicotina.json", traceToJson(trace, meta));
+    }
+  };
+
+  const advanceBy = (minutes: number) => {
+    setScrubT(null);
+    const {
+      final,
+      trace: newTrace,
+      states,
+    } = advance(
+      simRef.current,
+      Math.round(minutes / FIXED_DT_MIN),
+      FIXED_DT_MIN,
+      params,
+      (t0, s) =>
+        doseBetween(schedule, t0, t0 + FIXED_DT_MIN) +
+        (autoPuff && s.craving >= params.autoPuffThreshold ? puffDose : 0),
+      delivery,
+    );
+    commitSim(final);
+    recordTrace(newTrace, states);
   };
 
-  const advance60 = () => {
-    let nic = nicotine;
-    let pDA = poolDA;
-    let pG = poolGABA;
-    let t = simMin;
-
-    const newTrace: typeof trace = [];
-    let out: ModelOut | null = null;
-    for (let i = 0; i < 60; i++) {
-      out = stepModel(1, nic, pDA, pG, false, params);
-      nic = out.nicotine;
-      pDA = out.poolDA;
-      pG = out.poolGABA;
-      t += 1;
-      const desAll = clamp01(
-        0.5 * out.poolDA.desens + 0.5 * out.poolGABA.desens,
-      );
-      newTrace.push({
-        t,
-        da: out.da,
-        gaba: out.gaba,
-        nic: out.nicotine,
-        desAll,
-        puff: true,
-      });
+  // Aplica una acción del usuario (en vivo o desde una grabación)
+  const apply = (a: ReplayAction) => {
+    switch (a.type) {
+      case "puff":
+        return doPuff();
+      case "preset":
+        return applyPreset(a.preset);
+      case "params":
+        if (!a.quiet) logParamChange(a.from ?? params, a.params);
+        return setParams(a.params);
+      case "settings": {
+        const c = a.changes;
+        if (c.puffsPerMin !== undefined) setPuffsPerMin(c.puffsPerMin);
+        if (c.schedule !== undefined) setSchedule(c.schedule);
+        if (c.route !== undefined) setRoute(c.route);
+        if (c.patchOn !== undefined) setPatchOn(c.patchOn);
+        if (c.patchDose !== undefined) setPatchDose(c.patchDose);
+        if (c.autoPuff !== undefined) setAutoPuff(c.autoPuff);
+        if (c.drugs !== undefined) setDrugRegimen(c.drugs);
+        return;
+      }
+      case "seed":
+        return changeSeed(a.seed);
+      case "load":
+        return applyConfig(a.config);
+      case "reset":
+        return reset();
+      case "advance":
+        return advanceBy(a.minutes);
+      case "pause":
+        return setIsRunning(false);
+      case "resume":
+        setScrubT(null);
+        return setIsRunning(true);
+      case "rewind":
+        return continueFrom(a.to);
+      case "note":
+        return setEvents((prev) =>
+          appendEvents(prev, [noteEvent(a.at, a.text)], simRef.current.t),
+        );
+      case "removeEvent":
+        return setEvents((prev) => removeEvent(prev, a.at, a.label));
     }
+  };
+
+  // Guarda la sesión actual como paso de deshacer (los valores seguidos de un
+  // mismo slider cuentan como uno)
+  const checkpoint = (key: string | null) => {
+    const now = performance.now();
+    const last = lastCheckpoint.current;
+    lastCheckpoint.current = { key, at: now };
+    if (key && last?.key === key && now - last.at < UNDO_COALESCE_MS) return;
+    const snap = currentSession();
+    setUndo((u) => ({
+      past: [...u.past.slice(1 - UNDO_LIMIT), snap],
+      future: [],
+    }));
+  };
 
-    if (out) {
-      setNicotine(nic);
-      setPoolDA(pDA);
-      setPoolGABA(pG);
-      setAlpha7AchOn(out.alpha7AchOn);
-      setAlpha7GluOn(out.alpha7GluOn);
-      setAchDrive(out.achDrive);
-      setGluDrive(out.gluDrive);
-      setGaba(out.gaba);
-      setDa(out.da);
-      setDirect(out.direct);
-      setIndirect(out.indirect);
-      setSimMin(t);
-      setTrace((prev) => [...prev, ...newTrace].slice(-900));
+  const undoStep = () => {
+    const prev = undo.past.at(-1);
+    if (!prev || recording) return;
+    setUndo({
+      past: undo.past.slice(0, -1),
+      future: [...undo.future, currentSession()],
+    });
+    lastCheckpoint.current = null;
+    restoreSession(prev);
+  };
+
+  const redoStep = () => {
+    const next = undo.future.at(-1);
+    if (!next || recording) return;
+    setUndo({
+      past: [...undo.past, currentSession()],
+      future: undo.future.slice(0, -1),
+    });
+    lastCheckpoint.current = null;
+    restoreSession(next);
+  };
+
+  // Escenario por defecto desde cero (se puede deshacer)
+  const newSession = () => {
+    clearSession();
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, "", `${pathname}${search}`);
+    act({ type: "load", config: DEFAULT_CONFIG });
+  };
+
+  // Acción desde la interfaz: se graba con su minuto, se guarda el paso de
+  // deshacer y, si cambia la simulación, interrumpe la reproducción en curso
+  const act = (a: ReplayAction) => {
+    const passive = a.type === "pause" || a.type === "resume";
+    if (!passive && !(a.type === "params" && a.from)) {
+      checkpoint(coalesceKey(a));
     }
+    if (recording) {
+      const entry = { t: simRef.current.t, action: a };
+      setRecording((r) => r && { ...r, entries: [...r.entries, entry] });
+    }
+    if (playRef.current && !passive) stopPlayback();
+    apply(a);
   };
 
+  // Grabar reinicia el escenario actual en t = 0 (punto de partida reproducible)
+  const startRecording = () => {
+    const config = currentConfig();
+    stopPlayback();
+    applyConfig(config);
+    setRecording({ config, entries: [] });
+    setIsRunning(true);
+  };
+
+  const stopRecording = () => {
+    if (!recording) return;
+    setReplay(
+      createReplay(recording.config, recording.entries, simRef.current.t),
+    );
+    setRecording(null);
+  };
+
+  const startPlayback = (r: Replay) => {
+    applyConfig(r.config);
+    playRef.current = { replay: r, index: 0 };
+    setPlayIndex(0);
+    setIsRunning(true);
+  };
+
+  const stopPlayback = () => {
+    playRef.current = null;
+    setPlayIndex(null);
+  };
+
+  // Reproductor: aplica la siguiente acción si ya llegó su minuto (una por
+  // frame, con el estado ya actualizado); devuelve cuántos pasos se pueden
+  // simular antes de la siguiente
+  const playbackStep = useEffectEvent((): number => {
+    const play = playRef.current;
+    if (!play) return Infinity;
+    const now = simRef.current.t;
+    const entry = play.replay.entries[play.index];
+    const until = entry ? entry.t : play.replay.endT;
+    if (until > now + 1e-6) return Math.round((until - now) / FIXED_DT_MIN);
+
+    if (!entry) {
+      stopPlayback();
+      setIsRunning(false);
+      return 0;
+    }
+    play.index += 1;
+    setPlayIndex(play.index);
+    if (entry.action.type !== "pause") apply(entry.action);
+    else if (stopAtPauses) setIsRunning(false);
+    return 0;
+  });
+
+  useEffect(() => savePresets(library), [library]);
+
+  // Si falla el autoguardado se avisa en la cabecera (hasta que vuelva a ir)
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const autosave = useEffectEvent(() =>
+    setSaveError(saveSession(currentSession())),
+  );
+
+  useEffect(() => {
+    const id = window.setInterval(autosave, AUTOSAVE_MS);
+    window.addEventListener("pagehide", autosave);
+    return () => {
+      window.clearInterval(id);
+      window.removeEventListener("pagehide", autosave);
+    };
+  }, []);
+
+  // Ctrl+Z / Ctrl+Y (o Ctrl+Mayús+Z); en campos de texto, el deshacer nativo
+  const onUndoKey = useEffectEvent((e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const el = e.target;
+    if (
+      el instanceof HTMLTextAreaElement ||
+      (el instanceof HTMLInputElement &&
+        (el.type === "text" || el.type === "number"))
+    ) {
+      return;
+    }
+    const key = e.key.toLowerCase();
+    if (key === "z" && !e.shiftKey) undoStep();
+    else if (key === "y" || key === "z") redoStep();
+    else return;
+    e.preventDefault();
+  });
+
+  useEffect(() => {
+    window.addEventListener("keydown", onUndoKey);
+    return () => window.removeEventListener("keydown", onUndoKey);
+  }, []);
+
   useEffect(() => {
     if (!isRunning) return;
 
     const tick = (ts: number) => {
       if (lastT.current == null) lastT.current = ts;
-      const dtMs = ts - lastT.current;
+      // Tope: tras una pestaña oculta no se recupera todo el tiempo perdido
+      const dtMs = Math.min(ts - lastT.current, MAX_FRAME_MS);
       lastT.current = ts;
 
-      // 1s real = 1 min sim
-      const dtMin = dtMs / 1000;
-
-      const prob = clamp01(puffsPerMin * dtMin);
-      const puffNow = Math.random() < prob;
-
-      const out = stepModel(dtMin, nicotine, poolDA, poolGABA, puffNow, params);
-
-      setNicotine(out.nicotine);
-      setPoolDA(out.poolDA);
-      setPoolGABA(out.poolGABA);
-      setAlpha7AchOn(out.alpha7AchOn);
-      setAlpha7GluOn(out.alpha7GluOn);
-      setAchDrive(out.achDrive);
-      setGluDrive(out.gluDrive);
-      setGaba(out.gaba);
-      setDa(out.da);
-      setDirect(out.direct);
-      setIndirect(out.indirect);
-      setSimMin((m) => m + dtMin);
-      setTrace((prev) => {
-        const t = simMin + dtMin;
-        const desAll = clamp01(
-          0.5 * out.poolDA.desens + 0.5 * out.poolGABA.desens,
+      // 1 s real = `speed` min sim, consumido en pasos fijos
+      const plan = planSteps(accRef.current, (dtMs / 1000) * speed);
+      accRef.current = plan.accMin;
+
+      const steps = Math.min(plan.steps, playbackStep());
+      // Lo que no se simula por esperar a una acción queda pendiente
+      accRef.current += (plan.steps - steps) * FIXED_DT_MIN;
+
+      if (steps > 0) {
+        const rng = rngRef.current;
+        const {
+          final,
+          trace: newTrace,
+          states,
+        } = advance(
+          simRef.current,
+          steps,
+          FIXED_DT_MIN,
+          params,
+          // Auto-puff: el craving del paso anterior dispara la siguiente dosis
+          (t0, s) =>
+            doseBetween(schedule, t0, t0 + FIXED_DT_MIN) +
+            (randomPuff(rng, puffsPerMin, FIXED_DT_MIN) ? puffDose : 0) +
+            (autoPuff && s.craving >= params.autoPuffThreshold ? puffDose : 0),
+          delivery,
         );
-        const next = [
-          ...prev,
-          {
-            t,
-            da: out.da,
-            gaba: out.gaba,
-            nic: out.nicotine,
-            desAll,
-            puff: puffNow, // 👈 AQUÍ
-          },
-        ];
-        const tMax = next.at(-1)?.t ?? 0;
-        return next.filter((p) => p.t >= tMax - 60);
-      });
+        commitSim(final);
+        recordTrace(newTrace, states);
+      }
 
       rafRef.current = requestAnimationFrame(tick);
     };
@@ -547,99 +1021,16 @@ export default function NicotineCircuitV11() {
       rafRef.current = null;
       lastT.current = null;
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isRunning, nicotine, poolDA, poolGABA, puffsPerMin, params]);
-
-  useEffect(() => {
-    // DA
-    if (stateDA === "desensibilizado" && desensStartDA == null) {
-      setDesensStartDA(simMin);
-    }
-    if (stateDA !== "desensibilizado" && desensStartDA != null) {
-      setDesensStartDA(null);
-    }
-
-    // GABA
-    if (stateG === "desensibilizado" && desensStartG == null) {
-      setDesensStartG(simMin);
-    }
-    if (stateG !== "desensibilizado" && desensStartG != null) {
-      setDesensStartG(null);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [stateDA, stateG, simMin, desensStartDA, desensStartG]);
-
-  // chart
-  const chartW = 760;
-  const chartH = 150;
-  const pad = 10;
-
-  const LEGEND_H = 26; // espacio arriba para la mini-leyenda
-  const BAND_H = 10; // alto de cada banda
-  const BAND_GAP = 4; // separación entre bandas
-  const BANDS_TOTAL = BAND_H * 2 + BAND_GAP; // nicotina + desens
-  const plotTop = pad + LEGEND_H;
-  const plotBottom = chartH - pad - BANDS_TOTAL - 6; // aire
-  const plotH = Math.max(10, plotBottom - plotTop);
-
-  const yDomain = useMemo(() => {
-    if (trace.length < 2) return { min: 0, max: 1 };
-
-    const values = trace.flatMap((p) => [p.da, p.gaba]);
-    let min = Math.min(...values);
-    let max = Math.max(...values);
-
-    // Evita colapsar el rango (si DA/GABA casi no varían)
-    const minRange = 0.15;
-    if (max - min < minRange) {
-      const mid = (min + max) / 2;
-      min = mid - minRange / 2;
-      max = mid + minRange / 2;
-    }
-
-    // margen visual
-    const padding = 0.1 * (max - min);
-
-    return {
-      min: Math.max(0, min - padding),
-      max: Math.min(1, max + padding),
-    };
-  }, [trace]);
-
-  const pts = useMemo(() => {
-    if (trace.length < 2)
-      return {
-        da: "",
-        gaba: "",
-        band: [] as { x: number; w: number; vNic: number; vDes: number }[],
-      };
-
-    const n = trace.length;
-    const x = (i: number) => pad + (i / (n - 1)) * (chartW - pad * 2);
-
-    const y = (v: number) => {
-      const { min, max } = yDomain;
-      const norm = (v - min) / (max - min || 1);
-      return plotTop + (1 - clamp01(norm)) * plotH;
-    };
-
-    // Bandas: 60 celdas (≈ 1/min)
-    const bins = 60;
-    const band = Array.from({ length: bins }).map((_, bi) => {
-      const idx = Math.round((bi / (bins - 1)) * (n - 1));
-      const vNic = clamp01(trace[idx].nic);
-      const vDes = clamp01(trace[idx].desAll); // asegúrate de tener desAll en trace
-      const x0 = pad + (bi / bins) * (chartW - pad * 2);
-      const w = (chartW - pad * 2) / bins;
-      return { x: x0, w, vNic, vDes };
-    });
-
-    return {
-      da: trace.map((p, i) => `${x(i)},${y(p.da)}`).join(" "),
-      gaba: trace.map((p, i) => `${x(i)},${y(p.gaba)}`).join(" "),
-      band,
-    };
-  }, [trace, yDomain, chartW, chartH, pad, plotTop, plotH]);
+  }, [
+    isRunning,
+    puffsPerMin,
+    params,
+    speed,
+    schedule,
+    delivery,
+    puffDose,
+    autoPuff,
+  ]);
 
   // SVG helpers
   const inhStroke = "#0f172a";
@@ -653,13 +1044,42 @@ export default function NicotineCircuitV11() {
               Nicotina — circuito de recompensa
             </h1>
             <div className="flex items-center gap-2 flex-wrap justify-end">
-              <Pill>Nicotina: {Math.round(nicotine * 100)}%</Pill>
+              {params.pkMode ? (
+                <Pill>
+                  Nicotina plasma: {Math.round(plasma * 100)}% · cerebro:{" "}
+                  {Math.round(nicotine * 100)}%
+                </Pill>
+              ) : (
+                <Pill>Nicotina: {Math.round(nicotine * 100)}%</Pill>
+              )}
               <Pill>α7 ACh: {alpha7AchOn ? "ON" : "OFF"}</Pill>
               <Pill>α7 Glu: {alpha7GluOn ? "ON" : "OFF"}</Pill>
               <Pill>α4β2 (DA): {stateDA}</Pill>
               <Pill>α4β2 (GABA): {stateG}</Pill>
               <Pill>Ventana desens: {params.desensWindowMin} min</Pill>
+              {params.chronicMode && (
+                <Pill>
+                  Densidad α4β2: DA {density.da.toFixed(2)}× · GABA{" "}
+                  {density.gaba.toFixed(2)}×
+                </Pill>
+              )}
               <Pill>t ≈ {Math.round(simMin)} min</Pill>
+              {speed !== 1 && <Pill>Velocidad: {speed}×</Pill>}
+              <Pill>
+                Craving: {Math.round(craving * 100)}%
+                {autoPuff ? " · auto-puff" : ""}
+              </Pill>
+              {drugsOnReceptor.length > 0 && (
+                <Pill>
+                  {drugsOnReceptor
+                    .map(
+                      (id) =>
+                        `${DRUGS[id].label}: ${Math.round(drugs[id] * 100)}%`,
+                    )
+                    .join(" · ")}
+                </Pill>
+              )}
+              {scrubState && <Pill>⏪ Rebobinado (pasado)</Pill>}
             </div>
           </div>
           <p className="text-sm text-slate-600">
@@ -668,6 +1088,11 @@ export default function NicotineCircuitV11() {
             recuperación usa una
             <b> ventana típica</b> de desensibilización (p.ej., 45 min).
           </p>
+          {saveError && (
+            <p className="text-xs text-red-700 mt-1" role="alert">
+              {saveError}
+            </p>
+          )}
         </header>
 
         <div className="grid grid-cols-1 lg:grid-cols-[1fr_360px] gap-4">
@@ -678,22 +1103,65 @@ export default function NicotineCircuitV11() {
                 Circuito (esquema)
               </div>
               <div className="flex items-center gap-2">
+                <label
+                  className="flex items-center gap-1 text-xs text-slate-600"
+                  title="Minutos simulados por segundo real"
+                >
+                  Velocidad
+                  <select
+                    className="px-2 py-1.5 rounded-xl border border-slate-200 bg-slate-50 text-sm tabular-nums"
+                    value={speed}
+                    onChange={(e) => setSpeed(parseFloat(e.target.value))}
+                  >
+                    {SPEED_OPTIONS.map((v) => (
+                      <option key={v} value={v}>
+                        {v}×
+                      </option>
+                    ))}
+                  </select>
+                </label>
                 <button
                   className="px-3 py-1.5 rounded-xl border border-slate-200 bg-slate-50 text-sm"
-                  onClick={() => setIsRunning((v) => !v)}
+                  onClick={toggleRunning}
                 >
                   {isRunning ? "Pausar" : "Reanudar"}
                 </button>
                 <button
                   className="px-3 py-1.5 rounded-xl border border-slate-200 bg-slate-50 text-sm"
-                  onClick={reset}
+                  onClick={() => act({ type: "reset" })}
                 >
                   Reset
                 </button>
+                <button
+                  className="px-2 py-1.5 rounded-xl border border-slate-200 bg-slate-50 text-sm disabled:opacity-40"
+                  title="Deshacer (Ctrl+Z)"
+                  aria-label="Deshacer"
+                  disabled={undo.past.length === 0 || recording != null}
+                  onClick={undoStep}
+                >
+                  ↶
+                </button>
+                <button
+                  className="px-2 py-1.5 rounded-xl border border-slate-200 bg-slate-50 text-sm disabled:opacity-40"
+                  title="Rehacer (Ctrl+Y)"
+                  aria-label="Rehacer"
+                  disabled={undo.future.length === 0 || recording != null}
+                  onClick={redoStep}
+                >
+                  ↷
+                </button>
+                <button
+                  className="px-3 py-1.5 rounded-xl border border-slate-200 bg-slate-50 text-sm"
+                  title="Borra la sesión guardada y vuelve al escenario por defecto"
+                  onClick={newSession}
+                >
+                  Nueva sesión
+                </button>
               </div>
             </div>
 
             <svg
+              ref={circuitSvgRef}
               viewBox="0 0 980 560"
               className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
             >
@@ -968,7 +1436,7 @@ export default function NicotineCircuitV11() {
                   cx={869}
                   cy={189}
                   r={30}
-                  startMin={desensStartG}
+                  startMin={clockStartG}
                   nowMin={simMin}
                   windowMin={params.desensWindowMin}
                   color="#1d4ed8"
@@ -994,6 +1462,12 @@ export default function NicotineCircuitV11() {
                 >
                   (GABA)
                 </text>
+                <DrugLabels
+                  x={869}
+                  y={236}
+                  ids={drugsOnReceptor}
+                  occupancy={occupancy}
+                />
               </g>
 
               {/* DA neuron */}
@@ -1052,7 +1526,7 @@ export default function NicotineCircuitV11() {
                   cx={622}
                   cy={347}
                   r={34}
-                  startMin={desensStartDA}
+                  startMin={clockStartDA}
                   nowMin={simMin}
                   windowMin={params.desensWindowMin}
                   color="#b91c1c"
@@ -1079,6 +1553,12 @@ export default function NicotineCircuitV11() {
                 >
                   (DA)
                 </text>
+                <DrugLabels
+                  x={622}
+                  y={394}
+                  ids={drugsOnReceptor}
+                  occupancy={occupancy}
+                />
               </g>
 
               {/* NAcc */}
@@ -1287,32 +1767,90 @@ export default function NicotineCircuitV11() {
               Modo clase
             </div>
 
-            <div className="grid grid-cols-3 gap-2">
-              <button
-                onClick={() => applyPreset("puff")}
-                className={`py-2 rounded-xl border text-xs ${preset === "puff" ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
-              >
-                Puff único
-              </button>
-              <button
-                onClick={() => applyPreset("repetido")}
-                className={`py-2 rounded-xl border text-xs ${preset === "repetido" ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
-              >
-                Puffs repetidos
-              </button>
-              <button
-                onClick={() => applyPreset("abstinencia")}
-                className={`py-2 rounded-xl border text-xs ${preset === "abstinencia" ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
-              >
-                Abstinencia
-              </button>
+            <PresetLibrary
+              library={library}
+              current={preset}
+              onApply={(p) => act({ type: "preset", preset: p })}
+              onChange={setLibrary}
+              getConfig={currentConfig}
+              getState={() => {
+                const s = simRef.current;
+                return {
+                  nicotine: s.nicotine,
+                  poolDA: s.poolDA,
+                  poolGABA: s.poolGABA,
+                };
+              }}
+            />
+
+            <div className="mt-4">
+              <div className="text-sm font-medium text-slate-700">
+                Vía de administración
+              </div>
+              <div className="grid grid-cols-3 gap-2 mt-2">
+                {DOSE_ROUTES.map((r) => (
+                  <button
+                    key={r}
+                    onClick={() =>
+                      act({ type: "settings", changes: { route: r } })
+                    }
+                    className={`py-1.5 rounded-xl border text-xs ${route === r ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
+                  >
+                    {ROUTES[r].label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">
+                {ROUTES[route].description}
+              </p>
+
+              <div className="flex items-center justify-between mt-3">
+                <button
+                  onClick={() =>
+                    act({ type: "settings", changes: { patchOn: !patchOn } })
+                  }
+                  className={`px-3 py-1.5 rounded-xl border text-xs ${patchOn ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
+                >
+                  Parche: {patchOn ? "ON" : "OFF"}
+                </button>
+                <span className="text-sm text-slate-600 tabular-nums">
+                  {patchDose.toFixed(2)} /h
+                </span>
+              </div>
+              <input
+                className="w-full mt-2"
+                type="range"
+                min={0}
+                max={0.3}
+                step={0.01}
+                value={patchDose}
+                aria-label="Dosis del parche (nicotina/h)"
+                onChange={(e) =>
+                  act({
+                    type: "settings",
+                    changes: { patchDose: parseFloat(e.target.value) },
+                  })
+                }
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {ROUTES.patch.description}
+              </p>
             </div>
 
+            <DrugControls
+              regimen={drugRegimen}
+              levels={drugs}
+              nowMin={simMin}
+              onChange={(next) =>
+                act({ type: "settings", changes: { drugs: next } })
+              }
+            />
+
             <button
-              onClick={doPuff}
+              onClick={() => act({ type: "puff" })}
               className="w-full mt-4 py-3 rounded-2xl bg-slate-900 text-white font-medium"
             >
-              Puff (+ nicotina)
+              {ROUTES[route].doseLabel}
             </button>
 
             {/* NEW: desens window */}
@@ -1332,11 +1870,19 @@ export default function NicotineCircuitV11() {
                 max={90}
                 step={1}
                 value={params.desensWindowMin}
+                onPointerDown={() => (sliderFrom.current ??= params)}
+                onKeyDown={() => (sliderFrom.current ??= params)}
+                onPointerUp={endSliderDrag}
+                onKeyUp={endSliderDrag}
                 onChange={(e) =>
-                  setParams((p) => ({
-                    ...p,
-                    desensWindowMin: parseInt(e.target.value, 10),
-                  }))
+                  act({
+                    type: "params",
+                    params: {
+                      ...params,
+                      desensWindowMin: parseInt(e.target.value, 10),
+                    },
+                    quiet: true,
+                  })
                 }
               />
               <p className="text-xs text-slate-500 mt-1">
@@ -1345,6 +1891,49 @@ export default function NicotineCircuitV11() {
               </p>
             </div>
 
+            <div className="mt-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">
+                  Integrador α4β2
+                </span>
+                <div className="flex gap-1">
+                  {(["euler", "rk4"] as Integrator[]).map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => updateParams({ ...params, integrator: m })}
+                      className={`px-2 py-0.5 rounded-lg border text-xs ${params.integrator === m ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
+                    >
+                      {m === "euler" ? "Euler" : "RK4"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <label className="flex items-center gap-2 mt-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={params.pkMode}
+                  onChange={(e) =>
+                    updateParams({ ...params, pkMode: e.target.checked })
+                  }
+                />
+                Modelo PK (plasma → cerebro)
+              </label>
+              <label className="flex items-center gap-2 mt-1 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={params.chronicMode}
+                  onChange={(e) =>
+                    updateParams({ ...params, chronicMode: e.target.checked })
+                  }
+                />
+                Modo crónico (densidad de α4β2 en días)
+              </label>
+              <p className="text-xs text-slate-500 mt-1">
+                Paso fijo de {Math.round(FIXED_DT_MIN * 60)} s simulados,
+                independiente de los Hz de la pantalla.
+              </p>
+            </div>
+
             <div className="mt-4">
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-slate-700">
@@ -1361,22 +1950,136 @@ export default function NicotineCircuitV11() {
                 max={0.5}
                 step={0.01}
                 value={puffsPerMin}
-                onChange={(e) => setPuffsPerMin(parseFloat(e.target.value))}
+                onChange={(e) =>
+                  act({
+                    type: "settings",
+                    changes: { puffsPerMin: parseFloat(e.target.value) },
+                  })
+                }
               />
               <p className="text-xs text-slate-500 mt-1">
                 0.10 ≈ 1 puff / 10 min (aprox., didáctico)
               </p>
             </div>
 
+            <div className="mt-4">
+              <div className="flex items-center justify-between">
+                <label
+                  htmlFor="seed"
+                  className="text-sm font-medium text-slate-700"
+                >
+                  Semilla (puffs aleatorios)
+                </label>
+                <button
+                  onClick={() => act({ type: "seed", seed: randomSeed() })}
+                  className="px-2 py-0.5 rounded-lg border border-slate-200 bg-slate-50 text-xs"
+                >
+                  Nueva
+                </button>
+              </div>
+              <input
+                id="seed"
+                className="w-full mt-2 px-2 py-1 rounded-lg border border-slate-200 text-sm tabular-nums"
+                type="number"
+                min={0}
+                step={1}
+                value={seedDraft ?? seed}
+                onChange={(e) => setSeedDraft(e.target.value)}
+                onBlur={commitSeed}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitSeed();
+                  if (e.key === "Escape") setSeedDraft(null);
+                }}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                Misma semilla + mismos parámetros = misma secuencia de puffs.
+              </p>
+            </div>
+
+            <EventLog
+              events={events}
+              now={simMin}
+              onAddNote={(t, text) => act({ type: "note", at: t, text })}
+              onRemove={(e) =>
+                act({ type: "removeEvent", at: e.t, label: e.label })
+              }
+            />
+
+            <ScheduleEditor
+              schedule={schedule}
+              puffDose={params.puffDose}
+              onChange={(next) =>
+                act({ type: "settings", changes: { schedule: [...next] } })
+              }
+            />
+            <label className="flex items-center gap-2 mt-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={autoPuff}
+                onChange={(e) =>
+                  act({
+                    type: "settings",
+                    changes: { autoPuff: e.target.checked },
+                  })
+                }
+              />
+              Auto-puff: fumar cuando el craving supere{" "}
+              {Math.round(params.autoPuffThreshold * 100)}%
+            </label>
+
+            <SessionPanel
+              getConfig={currentConfig}
+              onLoad={(config) => act({ type: "load", config })}
+              bootError={boot.error}
+            />
+
+            <ReplayPanel
+              recording={recording?.entries.length ?? null}
+              replay={replay}
+              playIndex={playIndex}
+              stopAtPauses={stopAtPauses}
+              onStopAtPausesChange={setStopAtPauses}
+              onRecord={startRecording}
+              onStopRecording={stopRecording}
+              onPlay={startPlayback}
+              onStopPlay={stopPlayback}
+              onLoad={setReplay}
+            />
+
+            <FigureExport
+              getSvgs={() => ({
+                circuit: circuitSvgRef.current,
+                timeline: timelineSvgRef.current,
+              })}
+              getCaption={() =>
+                figureCaption(simMin, currentConfig(), presetLabel)
+              }
+            />
+
+            <ParamsPanel
+              params={params}
+              onChange={(key, value) =>
+                updateParams({ ...params, [key]: value })
+              }
+              onResetAll={() =>
+                updateParams({
+                  ...DEFAULT_PARAMS,
+                  integrator: params.integrator,
+                  pkMode: params.pkMode,
+                  chronicMode: params.chronicMode,
+                })
+              }
+            />
+
             <div className="grid grid-cols-2 gap-2 mt-4">
               <button
-                onClick={advance60}
+                onClick={() => act({ type: "advance", minutes: 60 })}
                 className="py-2 rounded-xl border border-slate-200 bg-slate-50 text-sm"
               >
                 +60 min
               </button>
               <button
-                onClick={() => setIsRunning((v) => !v)}
+                onClick={toggleRunning}
                 className="py-2 rounded-xl border border-slate-200 bg-slate-50 text-sm"
               >
                 {isRunning ? "Pausar" : "Reanudar"}
@@ -1390,6 +2093,7 @@ export default function NicotineCircuitV11() {
               <div className="space-y-2">
                 <Bar label="Dopamina (DA)" value={da} />
                 <Bar label="GABA" value={gaba} />
+                <Bar label="Craving / abstinencia" value={craving} />
                 <Bar label="α4β2 desens (DA)" value={poolDA.desens} />
                 <Bar label="α4β2 desens (GABA)" value={poolGABA.desens} />
                 <Bar label="ACh drive (α7)" value={achDrive} />
@@ -1421,172 +2125,52 @@ export default function NicotineCircuitV11() {
             </div>
           </aside>
         </div>
-        {/* Timeline */}
-        <div className="mt-4 bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
-          <div className="flex items-center justify-between mb-2">
-            <div className="text-sm font-medium text-slate-700">Timeline</div>
-            <div className="text-xs text-slate-500">
-              DA / GABA / Nicotina / Desens (DA & GABA)
-            </div>
-          </div>
-
-          <svg
-            width="100%"
-            viewBox={`0 0 ${chartW} ${chartH}`}
-            className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
-          >
-            {/* 1) Grid suave */}
-            {Array.from({ length: 5 }).map((_, i) => (
-              <line
-                key={`grid-${i}`}
-                x1={pad}
-                x2={chartW - pad}
-                y1={pad + (i / 4) * (chartH - pad * 2)}
-                y2={pad + (i / 4) * (chartH - pad * 2)}
-                stroke="#e2e8f0"
-              />
-            ))}
-
-            {/* 2) Bandas (abajo): Nicotina y Desens (detrás de todo) */}
-            {/* Nicotina band (gris) */}
-            {pts.band?.map((b, i) => (
-              <rect
-                key={`nic-${i}`}
-                x={b.x}
-                y={chartH - pad - 22}
-                width={b.w + 1}
-                height={10}
-                fill="#94a3b8"
-                opacity={0.1 + 0.7 * b.vNic}
-                rx={2}
-              />
-            ))}
-
-            {/* Desens band (violeta total) */}
-            {pts.band?.map((b, i) => (
-              <rect
-                key={`des-${i}`}
-                x={b.x}
-                y={chartH - pad - 10}
-                width={b.w + 1}
-                height={10}
-                fill="#7c3aed"
-                opacity={0.1 + 0.75 * b.vDes}
-                rx={2}
-              />
-            ))}
-
-            {/* 3) Líneas (encima de bandas) */}
-            <polyline
-              points={pts.gaba}
-              fill="none"
-              stroke="#ee0f0f"
-              strokeWidth={2.2}
-              opacity={0.85}
-            />
-            <polyline
-              points={pts.da}
-              fill="none"
-              stroke="#111827"
-              strokeWidth={3.2}
-              opacity={0.95}
-            />
-
-            {/* 4) Puff ticks (encima de líneas) */}
-            {(() => {
-              const tMax = trace.at(-1)?.t ?? 0;
-              const tMin = tMax - 60;
-              const span = 60;
-
-              const xFromT = (t: number) =>
-                pad + ((t - tMin) / span) * (chartW - pad * 2);
-
-              return trace
-                .filter((p) => p.puff && p.t >= tMin && p.t <= tMax)
-                .map((p, i) => (
-                  <line
-                    key={`puff-${i}-${p.t}`}
-                    x1={xFromT(p.t)}
-                    x2={xFromT(p.t)}
-                    // 👇 solo dentro del “plot”, no hasta abajo (evita tapar bandas/labels)
-                    y1={plotTop}
-                    y2={plotTop + plotH}
-                    stroke="#f97316"
-                    strokeWidth={2}
-                    opacity={0.55}
-                  />
-                ));
-            })()}
-
-            {/* 5) Leyenda mini (arriba) */}
-            <g>
-              <line
-                x1={pad + 10}
-                y1={pad + 14}
-                x2={pad + 44}
-                y2={pad + 14}
-                stroke="#111827"
-                strokeWidth={3.2}
-              />
-              <text x={pad + 52} y={pad + 18} fontSize={12} fill="#111827">
-                DA
-              </text>
-
-              <line
-                x1={pad + 110}
-                y1={pad + 14}
-                x2={pad + 144}
-                y2={pad + 14}
-                stroke="#ee0f0f"
-                strokeWidth={2.2}
-              />
-              <text x={pad + 152} y={pad + 18} fontSize={12} fill="#55334b">
-                GABA
-              </text>
-
-              <rect
-                x={pad + 220}
-                y={pad + 8}
-                width={16}
-                height={8}
-                fill="#94a3b8"
-                opacity={0.5}
-                rx={2}
-              />
-              <text x={pad + 242} y={pad + 18} fontSize={12} fill="#334155">
-                Nicotina
-              </text>
-
-              <rect
-                x={pad + 330}
-                y={pad + 8}
-                width={16}
-                height={8}
-                fill="#7c3aed"
-                opacity={0.6}
-                rx={2}
-              />
-              <text x={pad + 352} y={pad + 18} fontSize={12} fill="#334155">
-                Desens (total)
-              </text>
-            </g>
-
-            {/* 6) Etiquetas de tiempo */}
-            <text x={pad} y={chartH - 4} fontSize={11} fill="#64748b">
-              -60 min
-            </text>
-            <text
-              x={chartW - pad}
-              y={chartH - 4}
-              fontSize={11}
-              fill="#64748b"
-              textAnchor="end"
+        <Timeline
+          trace={trace}
+          schedule={schedule}
+          pkMode={params.pkMode}
+          events={events}
+          svgRef={timelineSvgRef}
+          scrubT={scrubState?.t ?? null}
+          actions={(["csv", "json"] as const).map((f) => (
+            <button
+              key={f}
+              onClick={() => exportTrace(f)}
+              disabled={trace.length === 0}
+              className="px-2 py-0.5 rounded-lg border border-slate-200 bg-slate-50 text-xs disabled:opacity-50"
+              title="Exportar el trace con todas las salidas del modelo"
             >
-              ahora
-            </text>
-          </svg>
-        </div>
+              {f.toUpperCase()}
+            </button>
+          ))}
+        >
+          <Scrubber
+            tFirst={snapshots[0]?.t ?? 0}
+            tLast={snapshots.at(-1)?.t ?? 0}
+            value={scrubState?.t ?? null}
+            onChange={scrubTo}
+            onContinue={() =>
+              scrubState && act({ type: "rewind", to: scrubState.t })
+            }
+          />
+        </Timeline>
         {/* End of Timeline */}
+
+        <ComparePanel current={{ params, puffsPerMin }} base={compareBase} />
+        <SweepPanel
+          params={params}
+          puffsPerMin={puffsPerMin}
+          base={compareBase}
+        />
+        <DayCyclePanel
+          params={params}
+          delivery={delivery}
+          onUseSchedule={(next) =>
+            act({ type: "settings", changes: { schedule: next } })
+          }
+        />
+        <TreatmentPanel params={params} />
+        <ChronicPanel params={params} />
       </div>
       {/* End of Main Content */}
     </div>
@@ -0,0 +1,256 @@
+import { useMemo, useState } from "react";
+import {
+  DEFAULT_PROTOCOL,
+  puffTest,
+  runChronic,
+  type ChronicProtocol,
+  type ChronicResult,
+  type PuffResponse,
+} from "../engine/chronic";
+import { INITIAL_STATE, clamp01, type ModelParams } from "../engine/model";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-slate-50 text-xs";
+const input = "w-16 px-2 py-1 rounded-lg border border-slate-200 text-xs";
+
+const W = 760;
+const H = 160;
+const PAD = 28;
+
+const COLORS = ["#111827", "#dc2626", "#2563eb"];
+
+const FIELDS: { key: keyof ChronicProtocol; label: string; max: number }[] = [
+  { key: "smokingDays", label: "Días fumando", max: 60 },
+  { key: "cigsPerDay", label: "Cigarrillos/día", max: 60 },
+  { key: "abstinenceDays", label: "Días de abstinencia", max: 60 },
+];
+
+type Run = {
+  protocol: ChronicProtocol;
+  chronic: ChronicResult;
+  responses: PuffResponse[];
+};
+
+/**
+ * Capa crónica: densidad de α4β2 a lo largo de días de fumar y de
+ * abstinencia, y el mismo puff en cerebro naive, fumador y tras dejarlo.
+ */
+export default function ChronicPanel({ params }: { params: ModelParams }) {
+  const [protocol, setProtocol] = useState(DEFAULT_PROTOCOL);
+  const [run, setRun] = useState<Run | null>(null);
+
+  const calculate = () => {
+    const chronic = runChronic(protocol, params);
+    setRun({
+      protocol,
+      chronic,
+      responses: [
+        puffTest("Naive", INITIAL_STATE, params),
+        puffTest("Fumador", chronic.endSmoking, params),
+        puffTest(
+          `Tras ${protocol.abstinenceDays} d sin fumar`,
+          chronic.final,
+          params,
+        ),
+      ],
+    });
+  };
+
+  const density = useMemo(() => {
+    if (!run) return null;
+    const { samples } = run.chronic;
+    const days = Math.max(1e-6, samples.at(-1)?.day ?? 1);
+    const max = Math.max(
+      params.maxDensity,
+      ...samples.map((s) => Math.max(s.density.da, s.density.gaba)),
+    );
+    const x = (d: number) => PAD + (d / days) * (W - PAD * 2);
+    const y = (v: number) =>
+      PAD + (1 - (v - 0.9) / (max - 0.9 || 1)) * (H - PAD * 2);
+    return {
+      days,
+      x,
+      y,
+      da: samples.map((s) => `${x(s.day)},${y(s.density.da)}`).join(" "),
+      gaba: samples.map((s) => `${x(s.day)},${y(s.density.gaba)}`).join(" "),
+    };
+  }, [run, params.maxDensity]);
+
+  const puffs = useMemo(() => {
+    if (!run) return [];
+    const values = run.responses.flatMap((r) => r.trace.map((p) => p.da));
+    const min = Math.max(0, Math.min(...values) - 0.05);
+    const max = Math.min(1, Math.max(...values) + 0.05);
+    const tMax = run.responses[0].trace.at(-1)?.t ?? 1;
+    const x = (t: number) => PAD + (t / tMax) * (W - PAD * 2);
+    const y = (v: number) =>
+      PAD + (1 - clamp01((v - min) / (max - min || 1))) * (H - PAD * 2);
+    return run.responses.map((r) =>
+      r.trace.map((p) => `${x(p.t)},${y(p.da)}`).join(" "),
+    );
+  }, [run]);
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-medium text-slate-700">
+          Exposición crónica (upregulation de α4β2)
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {FIELDS.map((f) => (
+            <label
+              key={f.key}
+              className="flex items-center gap-1 text-xs text-slate-600"
+            >
+              {f.label}
+              <input
+                type="number"
+                className={input}
+                min={0}
+                max={f.max}
+                value={protocol[f.key]}
+                onChange={(e) => {
+                  const v = parseInt(e.target.value, 10);
+                  if (Number.isFinite(v)) {
+                    setProtocol({
+                      ...protocol,
+                      [f.key]: Math.min(f.max, Math.max(0, v)),
+                    });
+                  }
+                }}
+              />
+            </label>
+          ))}
+          <button className={btn} onClick={calculate}>
+            Calcular
+          </button>
+        </div>
+      </div>
+
+      {!run || !density ? (
+        <p className="text-xs text-slate-500">
+          Simula días de cigarrillos (de 7:00 a 23:00) y luego abstinencia con
+          los parámetros actuales: la desensibilización repetida hace crecer la
+          densidad de receptores y dejar de fumar la devuelve a 1 en semanas.
+          Después compara el mismo puff en los tres cerebros; el fumador parte
+          de su estado al acabar el último día (nicotina y desensibilización).
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${W} ${H}`}
+            className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
+            aria-label="Densidad de receptores por día"
+          >
+            <rect
+              x={density.x(0)}
+              y={PAD}
+              width={density.x(run.protocol.smokingDays) - density.x(0)}
+              height={H - PAD * 2}
+              fill="#fef3c7"
+            />
+            <line
+              x1={PAD}
+              x2={W - PAD}
+              y1={density.y(1)}
+              y2={density.y(1)}
+              stroke="#cbd5e1"
+              strokeDasharray="3 3"
+            />
+            <text x={PAD + 2} y={density.y(1) - 3} fontSize="10" fill="#64748b">
+              naive
+            </text>
+            {Array.from(
+              { length: Math.floor(density.days / 7) + 1 },
+              (_, i) => i * 7,
+            ).map((d) => (
+              <text
+                key={d}
+                x={density.x(d)}
+                y={H - 8}
+                fontSize="10"
+                textAnchor="middle"
+                fill="#64748b"
+              >
+                día {d}
+              </text>
+            ))}
+            <polyline
+              points={density.da}
+              fill="none"
+              stroke="#7c3aed"
+              strokeWidth={2}
+            />
+            <polyline
+              points={density.gaba}
+              fill="none"
+              stroke="#0891b2"
+              strokeWidth={1.5}
+              strokeDasharray="5 4"
+            />
+          </svg>
+          <div className="text-[11px] text-slate-500 mt-1">
+            Densidad (× naive): continua = DA · discontinua = GABA · fondo ámbar
+            = días fumando
+          </div>
+
+          <svg
+            viewBox={`0 0 ${W} ${H}`}
+            className="w-full h-auto mt-3 rounded-xl bg-slate-50 border border-slate-200"
+            aria-label="Respuesta DA a un puff"
+          >
+            {puffs.map((points, i) => (
+              <polyline
+                key={run.responses[i].label}
+                points={points}
+                fill="none"
+                stroke={COLORS[i]}
+                strokeWidth={2}
+              />
+            ))}
+          </svg>
+          <div className="text-[11px] text-slate-500 mt-1">
+            DA tras un puff en t = 0 (misma dosis; el fumador conserva la
+            nicotina y la desensibilización del último día)
+          </div>
+
+          <table className="w-full mt-2 text-xs text-slate-700 tabular-nums">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="font-medium py-1">Cerebro</th>
+                <th className="font-medium text-right">Densidad DA</th>
+                <th className="font-medium text-right">Densidad GABA</th>
+                <th className="font-medium text-right">Pico DA</th>
+                <th className="font-medium text-right">Δ por el puff</th>
+                <th className="font-medium text-right">t pico (min)</th>
+                <th className="font-medium text-right">AUC DA (·min)</th>
+                <th className="font-medium text-right">GABA mín.</th>
+              </tr>
+            </thead>
+            <tbody>
+              {run.responses.map((r, i) => (
+                <tr key={r.label} className="border-t border-slate-100">
+                  <td className="py-1">
+                    <span
+                      className="inline-block w-3 h-0.5 mr-1 align-middle"
+                      style={{ background: COLORS[i] }}
+                    />
+                    {r.label}
+                  </td>
+                  <td className="text-right">{r.density.da.toFixed(2)}</td>
+                  <td className="text-right">{r.density.gaba.toFixed(2)}</td>
+                  <td className="text-right">{r.summary.peakDA.toFixed(3)}</td>
+                  <td className="text-right">{r.addedDA.toFixed(3)}</td>
+                  <td className="text-right">
+                    {r.summary.timeToPeakMin.toFixed(1)}
+                  </td>
+                  <td className="text-right">{r.summary.aucDA.toFixed(1)}</td>
+                  <td className="text-right">{r.summary.minGABA.toFixed(3)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useMemo, useState } from "react";
+import { runScenario, type CompareRun, type Scenario } from "../engine/compare";
+import { clamp01, type ModelParams } from "../engine/model";
+import { PARAM_SPECS } from "../engine/paramSpec";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-slate-50 text-xs";
+
+const MAX_SCENARIOS = 4;
+const DURATIONS = [60, 120, 240];
+const COLORS = ["#111827", "#2563eb", "#dc2626", "#16a34a"];
+
+const W = 760;
+const H = 180;
+const PAD = 24;
+
+// Qué cambia un escenario respecto al primero (referencia)
+function describeDiff(s: Scenario, ref: Scenario | undefined): string {
+  if (!ref || s === ref) return "referencia";
+  const out = PARAM_SPECS.filter(
+    (p) => s.params[p.key] !== ref.params[p.key],
+  ).map((p) => `${p.label}: ${s.params[p.key]}`);
+  if (s.puffsPerMin !== ref.puffsPerMin) {
+    out.push(`Frecuencia: ${s.puffsPerMin}/min`);
+  }
+  if (s.params.integrator !== ref.params.integrator) {
+    out.push(s.params.integrator.toUpperCase());
+  }
+  if (s.params.pkMode !== ref.params.pkMode) {
+    out.push(s.params.pkMode ? "con PK" : "sin PK");
+  }
+  if (s.params.chronicMode !== ref.params.chronicMode) {
+    out.push(s.params.chronicMode ? "crónico" : "agudo");
+  }
+  return out.length > 0 ? out.join(" · ") : "igual que A";
+}
+
+/**
+ * Comparación A/B: se guardan instantáneas de los parámetros actuales y se
+ * corren con la misma pauta, semilla y estado inicial. Curvas DA (continua)
+ * y GABA (discontinua) superpuestas + tabla resumen.
+ */
+export default function ComparePanel({
+  current,
+  base,
+}: {
+  current: { params: ModelParams; puffsPerMin: number };
+  base: Omit<CompareRun, "durationMin">;
+}) {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [durationMin, setDurationMin] = useState(DURATIONS[0]);
+
+  const results = useMemo(
+    () => scenarios.map((s) => runScenario(s, { ...base, durationMin })),
+    [scenarios, base, durationMin],
+  );
+
+  const addCurrent = () =>
+    setScenarios((prev) => [
+      ...prev,
+      {
+        id: (prev.at(-1)?.id ?? -1) + 1,
+        label: String.fromCharCode(65 + prev.length),
+        params: current.params,
+        puffsPerMin: current.puffsPerMin,
+      },
+    ]);
+
+  const remove = (id: number) =>
+    setScenarios((prev) =>
+      prev
+        .filter((s) => s.id !== id)
+        .map((s, i) => ({ ...s, label: String.fromCharCode(65 + i) })),
+    );
+
+  const paths = useMemo(() => {
+    const values = results.flatMap((r) =>
+      r.trace.flatMap((p) => [p.da, p.gaba]),
+    );
+    const min = values.length ? Math.max(0, Math.min(...values) - 0.05) : 0;
+    const max = values.length ? Math.min(1, Math.max(...values) + 0.05) : 1;
+    const t0 = base.initial.t;
+    const x = (t: number) => PAD + ((t - t0) / durationMin) * (W - PAD * 2);
+    const y = (v: number) =>
+      PAD + (1 - clamp01((v - min) / (max - min || 1))) * (H - PAD * 2);
+    return results.map((r) => ({
+      da: r.trace.map((p) => `${x(p.t)},${y(p.da)}`).join(" "),
+      gaba: r.trace.map((p) => `${x(p.t)},${y(p.gaba)}`).join(" "),
+    }));
+  }, [results, base.initial.t, durationMin]);
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-medium text-slate-700">
+          Comparar escenarios (A/B)
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            Duración
+            <select
+              className={btn}
+              value={durationMin}
+              onChange={(e) => setDurationMin(parseInt(e.target.value, 10))}
+            >
+              {DURATIONS.map((d) => (
+                <option key={d} value={d}>
+                  {d} min
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            className={btn}
+            onClick={addCurrent}
+            disabled={scenarios.length >= MAX_SCENARIOS}
+          >
+            Añadir parámetros actuales
+          </button>
+          <button className={btn} onClick={() => setScenarios([])}>
+            Vaciar
+          </button>
+        </div>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Añade los parámetros actuales como escenario A, cambia un slider
+          (p.ej. ventana de desensibilización o frecuencia) y añade B. Todos
+          usan la misma pauta, semilla y estado inicial del preset.
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${W} ${H}`}
+            className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
+          >
+            {[0, 0.25, 0.5, 0.75, 1].map((f) => (
+              <g key={f}>
+                <line
+                  x1={PAD + f * (W - PAD * 2)}
+                  x2={PAD + f * (W - PAD * 2)}
+                  y1={PAD}
+                  y2={H - PAD}
+                  stroke="#e2e8f0"
+                />
+                <text
+                  x={PAD + f * (W - PAD * 2)}
+                  y={H - 8}
+                  fontSize="10"
+                  textAnchor="middle"
+                  fill="#64748b"
+                >
+                  {Math.round(f * durationMin)} min
+                </text>
+              </g>
+            ))}
+            {paths.map((p, i) => (
+              <g key={results[i].scenario.id}>
+                <polyline
+                  points={p.da}
+                  fill="none"
+                  stroke={COLORS[i]}
+                  strokeWidth={2}
+                />
+                <polyline
+                  points={p.gaba}
+                  fill="none"
+                  stroke={COLORS[i]}
+                  strokeWidth={1.5}
+                  strokeDasharray="5 4"
+                  opacity={0.8}
+                />
+              </g>
+            ))}
+          </svg>
+          <div className="text-[11px] text-slate-500 mt-1">
+            Continua = DA · discontinua = GABA
+          </div>
+
+          <table className="w-full mt-2 text-xs text-slate-700 tabular-nums">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="font-medium py-1">Escenario</th>
+                <th className="font-medium">Cambios</th>
+                <th className="font-medium text-right">Pico DA</th>
+                <th className="font-medium text-right">t pico (min)</th>
+                <th className="font-medium text-right">AUC DA (·min)</th>
+                <th className="font-medium text-right">GABA mín.</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(({ scenario: s, summary }, i) => (
+                <tr key={s.id} className="border-t border-slate-100">
+                  <td className="py-1">
+                    <span
+                      className="inline-block w-3 h-0.5 mr-1 align-middle"
+                      style={{ background: COLORS[i] }}
+                    />
+                    {s.label}
+                  </td>
+                  <td className="text-slate-500">
+                    {describeDiff(s, scenarios[0])}
+                  </td>
+                  <td className="text-right">{summary.peakDA.toFixed(3)}</td>
+                  <td className="text-right">
+                    {summary.timeToPeakMin.toFixed(1)}
+                  </td>
+                  <td className="text-right">{summary.aucDA.toFixed(1)}</td>
+                  <td className="text-right">{summary.minGABA.toFixed(3)}</td>
+                  <td className="text-right">
+                    <button
+                      className="text-slate-400 hover:text-slate-700"
+                      aria-label={`Quitar escenario ${s.label}`}
+                      onClick={() => remove(s.id)}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
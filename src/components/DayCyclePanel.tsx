@@ -0,0 +1,283 @@
+import { useMemo, useState } from "react";
+import {
+  DEFAULT_DAY_CYCLE,
+  clockLabel,
+  runDayCycle,
+  type DayCycle,
+} from "../engine/dayCycle";
+import { clamp01, type ModelParams } from "../engine/model";
+import type { Delivery } from "../engine/routes";
+import { MIN_PER_DAY, type DoseEvent } from "../engine/schedule";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-slate-50 text-xs";
+const input = "w-14 px-2 py-1 rounded-lg border border-slate-200 text-xs";
+
+const W = 760;
+const H = 200;
+const PAD = 28;
+
+const SERIES: {
+  label: string;
+  color: string;
+  dash?: string;
+  get: (p: { da: number; gaba: number; nic: number; desens: number }) => number;
+}[] = [
+  { label: "DA", color: "#111827", get: (p) => p.da },
+  { label: "GABA", color: "#2563eb", dash: "5 4", get: (p) => p.gaba },
+  { label: "Nicotina", color: "#d97706", get: (p) => p.nic },
+  {
+    label: "α4β2 DA desens.",
+    color: "#b91c1c",
+    dash: "2 3",
+    get: (p) => p.desens,
+  },
+];
+
+// Campos del formulario (horas en enteros; el ciclo guarda minutos)
+const FIELDS: {
+  key: keyof DayCycle;
+  label: string;
+  min: number;
+  max: number;
+  hours?: boolean;
+}[] = [
+  { key: "days", label: "Días", min: 1, max: 7 },
+  { key: "cigsPerDay", label: "Cigarrillos/día", min: 0, max: 40 },
+  { key: "wakeMin", label: "Despertar (h)", min: 0, max: 23, hours: true },
+  { key: "sleepMin", label: "Dormir (h)", min: 1, max: 24, hours: true },
+];
+
+const hours = (min: number) => (min / 60).toFixed(1);
+const fmtRise = (v: number | null) => (v == null ? "—" : `+${v.toFixed(3)}`);
+
+/**
+ * Ciclo de 24 h comprimido: vigilia fumando, noche sin nicotina y varios
+ * días seguidos, con eje de hora del día y resumen por día.
+ */
+export default function DayCyclePanel({
+  params,
+  delivery,
+  onUseSchedule,
+}: {
+  params: ModelParams;
+  delivery: Delivery;
+  onUseSchedule: (schedule: DoseEvent[]) => void;
+}) {
+  const [cycle, setCycle] = useState(DEFAULT_DAY_CYCLE);
+  const [open, setOpen] = useState(false);
+
+  const result = useMemo(
+    () => (open ? runDayCycle(cycle, params, undefined, delivery) : null),
+    [open, cycle, params, delivery],
+  );
+
+  const chart = useMemo(() => {
+    if (!result) return null;
+    const span = cycle.days * MIN_PER_DAY;
+    const x = (t: number) => PAD + (t / span) * (W - PAD * 2);
+    const y = (v: number) => PAD + (1 - clamp01(v)) * (H - PAD * 2);
+    const points = result.trace.map((p) => ({
+      t: p.t,
+      da: p.da,
+      gaba: p.gaba,
+      nic: p.nic,
+      desens: p.poolDA.desens,
+    }));
+    const tickEvery = cycle.days <= 3 ? 6 * 60 : 12 * 60;
+    return {
+      x,
+      lines: SERIES.map((s) => ({
+        ...s,
+        points: points.map((p) => `${x(p.t)},${y(s.get(p))}`).join(" "),
+      })),
+      ticks: Array.from(
+        { length: Math.floor(span / tickEvery) + 1 },
+        (_, i) => i * tickEvery,
+      ),
+      nights: Array.from({ length: cycle.days }, (_, d) => [
+        [d * MIN_PER_DAY, d * MIN_PER_DAY + cycle.wakeMin],
+        [d * MIN_PER_DAY + cycle.sleepMin, (d + 1) * MIN_PER_DAY],
+      ]).flat(),
+      puffs: result.trace.filter((p) => p.puff).map((p) => x(p.t)),
+    };
+  }, [result, cycle]);
+
+  const setField = (f: (typeof FIELDS)[number], raw: string) => {
+    const v = parseInt(raw, 10);
+    if (!Number.isFinite(v)) return;
+    const clamped = Math.min(f.max, Math.max(f.min, v));
+    const next = { ...cycle, [f.key]: f.hours ? clamped * 60 : clamped };
+    if (next.sleepMin > next.wakeMin) setCycle(next);
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-medium text-slate-700">
+          Ciclo de 24 h (vigilia, sueño y cigarrillo de la mañana)
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {FIELDS.map((f) => (
+            <label
+              key={f.key}
+              className="flex items-center gap-1 text-xs text-slate-600"
+            >
+              {f.label}
+              <input
+                type="number"
+                className={input}
+                min={f.min}
+                max={f.max}
+                value={f.hours ? cycle[f.key] / 60 : cycle[f.key]}
+                onChange={(e) => setField(f, e.target.value)}
+              />
+            </label>
+          ))}
+          <button className={btn} onClick={() => setOpen(!open)}>
+            {open ? "Ocultar" : "Simular días"}
+          </button>
+          <button
+            className={btn}
+            disabled={!result}
+            title="Carga estos cigarrillos en la pauta de la simulación en vivo"
+            onClick={() => result && onUseSchedule(result.schedule)}
+          >
+            Usar como pauta
+          </button>
+        </div>
+      </div>
+
+      {!result || !chart ? (
+        <p className="text-xs text-slate-500">
+          Varios días seguidos con los cigarrillos repartidos entre el despertar
+          y la hora de dormir, y sin nicotina por la noche: los receptores se
+          recuperan mientras se duerme y el primer cigarrillo del día da la
+          mayor subida de DA; los siguientes encuentran los receptores
+          desensibilizados y suben mucho menos. Usa los parámetros y la vía
+          actuales.
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${W} ${H}`}
+            className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
+            aria-label="Ciclo de 24 h"
+          >
+            {chart.nights.map(([a, b]) => (
+              <rect
+                key={a}
+                x={chart.x(a)}
+                y={PAD}
+                width={chart.x(b) - chart.x(a)}
+                height={H - PAD * 2}
+                fill="#e2e8f0"
+                opacity={0.6}
+              />
+            ))}
+            {chart.ticks.map((t) => (
+              <g key={t}>
+                <line
+                  x1={chart.x(t)}
+                  x2={chart.x(t)}
+                  y1={PAD}
+                  y2={H - PAD}
+                  stroke={t % MIN_PER_DAY === 0 ? "#94a3b8" : "#e2e8f0"}
+                />
+                <text
+                  x={chart.x(t)}
+                  y={H - 8}
+                  fontSize="10"
+                  textAnchor="middle"
+                  fill="#64748b"
+                >
+                  {clockLabel(t)}
+                </text>
+                {t % MIN_PER_DAY === 0 && t < cycle.days * MIN_PER_DAY && (
+                  <text
+                    x={chart.x(t) + 3}
+                    y={PAD - 6}
+                    fontSize="10"
+                    fill="#334155"
+                  >
+                    Día {t / MIN_PER_DAY + 1}
+                  </text>
+                )}
+              </g>
+            ))}
+            {chart.puffs.map((px, i) => (
+              <line
+                key={i}
+                x1={px}
+                x2={px}
+                y1={H - PAD}
+                y2={H - PAD + 5}
+                stroke="#d97706"
+              />
+            ))}
+            {chart.lines.map((l) => (
+              <polyline
+                key={l.label}
+                points={l.points}
+                fill="none"
+                stroke={l.color}
+                strokeWidth={l.label === "DA" ? 2 : 1.5}
+                strokeDasharray={l.dash}
+              />
+            ))}
+          </svg>
+          <div className="flex flex-wrap gap-3 text-[11px] text-slate-500 mt-1">
+            {SERIES.map((s) => (
+              <span key={s.label} className="flex items-center gap-1">
+                <span
+                  className="inline-block w-3 h-0.5"
+                  style={{ background: s.color }}
+                />
+                {s.label}
+              </span>
+            ))}
+            <span>· gris = sueño · marcas ámbar = cigarrillos</span>
+          </div>
+
+          <table className="w-full mt-2 text-xs text-slate-700 tabular-nums">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="font-medium py-1">Día</th>
+                <th className="font-medium text-right">Pico DA</th>
+                <th className="font-medium text-right">Hora del pico</th>
+                <th className="font-medium text-right">
+                  Subida 1.er cigarrillo
+                </th>
+                <th className="font-medium text-right">Subida media resto</th>
+                <th className="font-medium text-right">
+                  Desens. DA al despertar
+                </th>
+                <th className="font-medium text-right">
+                  DA desensibilizado (h)
+                </th>
+                <th className="font-medium text-right">
+                  GABA desensibilizado (h)
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.days.map((d) => (
+                <tr key={d.day} className="border-t border-slate-100">
+                  <td className="py-1">{d.day}</td>
+                  <td className="text-right">{d.peakDA.toFixed(3)}</td>
+                  <td className="text-right">{clockLabel(d.peakClockMin)}</td>
+                  <td className="text-right">{fmtRise(d.firstCigRiseDA)}</td>
+                  <td className="text-right">{fmtRise(d.laterCigRiseDA)}</td>
+                  <td className="text-right">
+                    {Math.round(d.wakeDesensDA * 100)}%
+                  </td>
+                  <td className="text-right">{hours(d.desensMinDA)}</td>
+                  <td className="text-right">{hours(d.desensMinGABA)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
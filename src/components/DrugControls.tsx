@@ -0,0 +1,98 @@
+import {
+  DRUGS,
+  DRUG_IDS,
+  type DrugId,
+  type DrugLevels,
+  type DrugRegimen,
+} from "../engine/drugs";
+
+const EVERY_H = [6, 8, 12, 24];
+
+/**
+ * Pauta de cada fármaco (on/off, dosis por toma, intervalo) y su nivel
+ * actual. Al activarlo la primera toma es en el minuto actual.
+ */
+export default function DrugControls({
+  regimen,
+  levels,
+  nowMin,
+  onChange,
+}: {
+  regimen: DrugRegimen;
+  levels: DrugLevels;
+  nowMin: number;
+  onChange: (next: DrugRegimen) => void;
+}) {
+  const update = (id: DrugId, changes: Partial<DrugRegimen[DrugId]>) =>
+    onChange({ ...regimen, [id]: { ...regimen[id], ...changes } });
+
+  return (
+    <div className="mt-4">
+      <div className="text-sm font-medium text-slate-700">
+        Fármacos para dejar de fumar
+      </div>
+      <div className="space-y-3 mt-2">
+        {DRUG_IDS.map((id) => {
+          const d = regimen[id];
+          const p = DRUGS[id];
+          return (
+            <div key={id}>
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() =>
+                    update(
+                      id,
+                      d.on ? { on: false } : { on: true, startMin: nowMin },
+                    )
+                  }
+                  title={p.description}
+                  className={`px-3 py-1.5 rounded-xl border text-xs ${d.on ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
+                >
+                  {p.label}: {d.on ? "ON" : "OFF"}
+                </button>
+                <span className="text-xs text-slate-600 tabular-nums">
+                  nivel {Math.round(levels[id] * 100)}%
+                </span>
+              </div>
+              <div className="flex items-center gap-2 mt-1">
+                <input
+                  className="flex-1"
+                  type="range"
+                  min={0}
+                  max={0.5}
+                  step={0.01}
+                  value={d.dose}
+                  aria-label={`Dosis por toma de ${p.label}`}
+                  onChange={(e) =>
+                    update(id, { dose: parseFloat(e.target.value) })
+                  }
+                />
+                <span className="w-10 text-right text-xs text-slate-600 tabular-nums">
+                  {d.dose.toFixed(2)}
+                </span>
+                <select
+                  className="px-1 py-0.5 rounded-lg border border-slate-200 text-xs"
+                  value={d.everyH}
+                  aria-label={`Intervalo entre tomas de ${p.label}`}
+                  onChange={(e) =>
+                    update(id, { everyH: parseInt(e.target.value, 10) })
+                  }
+                >
+                  {EVERY_H.map((h) => (
+                    <option key={h} value={h}>
+                      cada {h} h
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500 mt-1">
+        La terapia sustitutiva (TSN) es nicotina: parche o chicle arriba. Sin
+        fase de absorción oral; cada fármaco se elimina con su vida media.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import type { SimEvent } from "../engine/events";
+import { EVENT_COLORS } from "./eventColors";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-white text-xs";
+const input =
+  "px-2 py-1 rounded-lg border border-slate-200 text-xs tabular-nums";
+
+/**
+ * Registro de eventos detectados (más recientes arriba) y notas del
+ * docente en un minuto dado (vacío = ahora).
+ */
+export default function EventLog({
+  events,
+  now,
+  onAddNote,
+  onRemove,
+}: {
+  events: readonly SimEvent[];
+  now: number;
+  onAddNote: (t: number, text: string) => void;
+  onRemove: (e: SimEvent) => void;
+}) {
+  const [text, setText] = useState("");
+  const [at, setAt] = useState("");
+
+  const add = () => {
+    if (!text.trim()) return;
+    const t = at === "" ? now : Math.max(0, parseFloat(at) || 0);
+    onAddNote(t, text);
+    setText("");
+    setAt("");
+  };
+
+  return (
+    <div className="mt-4 p-3 rounded-2xl bg-slate-50 border border-slate-200">
+      <div className="text-xs font-semibold text-slate-700 mb-2">
+        Eventos ({events.length})
+      </div>
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {[...events].reverse().map((e, i) => (
+          <div
+            key={`${e.t}-${e.kind}-${i}`}
+            className="flex items-start gap-2 text-xs text-slate-700"
+          >
+            <span className="w-14 shrink-0 tabular-nums text-slate-500">
+              {e.t.toFixed(1)} min
+            </span>
+            <span
+              className="mt-1 w-2 h-2 shrink-0 rounded-full"
+              style={{ background: EVENT_COLORS[e.kind] }}
+            />
+            <span className="flex-1">{e.label}</span>
+            {e.kind === "note" && (
+              <button
+                className="text-slate-400 hover:text-slate-700"
+                aria-label="Quitar nota"
+                onClick={() => onRemove(e)}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+        {events.length === 0 && (
+          <div className="text-xs text-slate-500">
+            Aún sin eventos: α7 ON/OFF, desensibilización, recuperación, picos
+            de DA y cambios de parámetros aparecen aquí.
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-[1fr_4.5rem_auto] gap-2 mt-2">
+        <input
+          className={input}
+          value={text}
+          placeholder="Nota del docente…"
+          aria-label="Texto de la nota"
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") add();
+          }}
+        />
+        <input
+          className={input}
+          type="number"
+          min={0}
+          step={1}
+          value={at}
+          placeholder={now.toFixed(0)}
+          aria-label="Minuto de la nota (vacío = ahora)"
+          onChange={(e) => setAt(e.target.value)}
+        />
+        <button className={btn} onClick={add}>
+          Anotar
+        </button>
+      </div>
+    </div>
+  );
+}
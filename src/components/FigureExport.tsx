@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { downloadBlob, downloadText } from "../lib/download";
+import { composeFigure, figureToPng } from "../lib/figure";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-white text-xs";
+
+type Target = "circuito" | "timeline" | "ambos";
+
+const TARGETS: { id: Target; label: string }[] = [
+  { id: "circuito", label: "Circuito" },
+  { id: "timeline", label: "Timeline" },
+  { id: "ambos", label: "Ambos" },
+];
+
+/**
+ * “Descargar figura”: circuito y/o timeline como SVG autónomo o PNG
+ * (×3), con pie opcional (t, preset, parámetros).
+ */
+export default function FigureExport({
+  getSvgs,
+  getCaption,
+}: {
+  getSvgs: () => {
+    circuit: SVGSVGElement | null;
+    timeline: SVGSVGElement | null;
+  };
+  getCaption: () => string[];
+}) {
+  const [target, setTarget] = useState<Target>("ambos");
+  const [withCaption, setWithCaption] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async (format: "svg" | "png") => {
+    const { circuit, timeline } = getSvgs();
+    const parts = (
+      target === "circuito"
+        ? [circuit]
+        : target === "timeline"
+          ? [timeline]
+          : [circuit, timeline]
+    ).filter((p): p is SVGSVGElement => p !== null);
+    if (parts.length === 0) return;
+
+    const fig = composeFigure(parts, withCaption ? getCaption() : []);
+    const name = `figura-nicotina-${target}.${format}`;
+    try {
+      if (format === "svg") downloadText(name, fig.svg, "image/svg+xml");
+      else downloadBlob(name, await figureToPng(fig));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="mt-4 p-3 rounded-2xl bg-slate-50 border border-slate-200">
+      <div className="text-xs font-semibold text-slate-700 mb-2">
+        Descargar figura
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className={btn}
+          value={target}
+          aria-label="Qué figura"
+          onChange={(e) => setTarget(e.target.value as Target)}
+        >
+          {TARGETS.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <button className={btn} onClick={() => void download("svg")}>
+          SVG
+        </button>
+        <button className={btn} onClick={() => void download("png")}>
+          PNG
+        </button>
+        <label className="flex items-center gap-1 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={withCaption}
+            onChange={(e) => setWithCaption(e.target.checked)}
+          />
+          Pie con t, preset y parámetros
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-700 mt-1">{error}</p>}
+    </div>
+  );
+}
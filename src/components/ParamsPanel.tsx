@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { DEFAULT_PARAMS, type ModelParams } from "../engine/model";
+import {
+  PARAM_GROUPS,
+  PARAM_SPECS,
+  validateParam,
+  type NumericParamKey,
+  type ParamSpec,
+} from "../engine/paramSpec";
+
+function ParamField({
+  spec,
+  value,
+  onChange,
+}: {
+  spec: ParamSpec;
+  value: number;
+  onChange: (key: NumericParamKey, value: number) => void;
+}) {
+  // Texto en edición (null = mostrar el valor vigente)
+  const [draft, setDraft] = useState<string | null>(null);
+  const error = draft == null ? null : validateParam(spec, parseFloat(draft));
+  const def = DEFAULT_PARAMS[spec.key];
+
+  // Se aplica al salir del campo o con Enter, no en cada tecla
+  const commit = () => {
+    if (draft == null || error != null) return;
+    const v = parseFloat(draft);
+    setDraft(null);
+    if (v !== value) onChange(spec.key, v);
+  };
+
+  return (
+    <div className="py-1.5">
+      <div className="flex items-center gap-2">
+        <label
+          htmlFor={`param-${spec.key}`}
+          className="flex-1 text-xs text-slate-700"
+          title={spec.help}
+        >
+          {spec.label}
+        </label>
+        <input
+          id={`param-${spec.key}`}
+          className={`w-20 px-2 py-0.5 rounded-lg border text-xs text-right tabular-nums ${error ? "border-red-400 bg-red-50" : "border-slate-200"}`}
+          type="number"
+          min={spec.min}
+          max={spec.max}
+          step={spec.step}
+          value={draft ?? value}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commit();
+            if (e.key === "Escape") setDraft(null);
+          }}
+        />
+        <span className="w-16 text-[11px] text-slate-500">{spec.unit}</span>
+        <button
+          className="text-xs text-slate-400 hover:text-slate-700 disabled:opacity-30"
+          title={`Restablecer (${def})`}
+          aria-label={`Restablecer ${spec.label}`}
+          disabled={value === def && draft == null}
+          onClick={() => {
+            setDraft(null);
+            onChange(spec.key, def);
+          }}
+        >
+          ↺
+        </button>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        {error ? <span className="text-red-700">{error}</span> : spec.help}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Panel “Avanzado”: un campo validado por cada parámetro numérico del
+ * modelo, con unidad, explicación y reset individual a DEFAULT_PARAMS.
+ */
+export default function ParamsPanel({
+  params,
+  onChange,
+  onResetAll,
+}: {
+  params: ModelParams;
+  onChange: (key: NumericParamKey, value: number) => void;
+  onResetAll: () => void;
+}) {
+  return (
+    <details className="mt-4 p-3 rounded-2xl bg-slate-50 border border-slate-200">
+      <summary className="text-xs font-semibold text-slate-700 cursor-pointer">
+        Avanzado (parámetros del modelo)
+      </summary>
+      {PARAM_GROUPS.map((g) => (
+        <div key={g.id} className="mt-3">
+          <div className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+            {g.label}
+          </div>
+          {PARAM_SPECS.filter((s) => s.group === g.id).map((s) => (
+            <ParamField
+              key={s.key}
+              spec={s}
+              value={params[s.key]}
+              onChange={onChange}
+            />
+          ))}
+        </div>
+      ))}
+      <button
+        className="mt-3 px-2 py-1 rounded-lg border border-slate-200 bg-white text-xs"
+        onClick={onResetAll}
+      >
+        Restablecer todo
+      </button>
+    </details>
+  );
+}
@@ -0,0 +1,127 @@
+import { useMemo } from "react";
+import type { ReceptorPool, TracePoint } from "../engine/model";
+import { PAD_L, PLOT_W, W, timeTicks, xAt } from "./timelineAxis";
+
+const H = 112;
+const ROW_H = 44;
+const ROWS: {
+  label: string;
+  top: number;
+  get: (p: TracePoint) => ReceptorPool;
+}[] = [
+  { label: "DA", top: 8, get: (p) => p.poolDA },
+  { label: "GABA", top: 8 + ROW_H + 8, get: (p) => p.poolGABA },
+];
+
+// Mismos colores que los estados del receptor en el circuito
+const LAYERS: { key: keyof ReceptorPool; label: string; color: string }[] = [
+  { key: "basal", label: "Basal", color: "#94a3b8" },
+  { key: "activado", label: "Activado", color: "#16a34a" },
+  { key: "desens", label: "Desensibilizado", color: "#b91c1c" },
+];
+
+/**
+ * Fracciones basal / activado / desens de cada pool, apiladas (suman 1).
+ * Comparte ventana con el timeline: se ve que GABA se desensibiliza antes.
+ */
+export default function PoolChart({
+  points,
+  start,
+  span,
+  cursorT,
+}: {
+  points: readonly TracePoint[];
+  start: number;
+  span: number;
+  cursorT: number | null;
+}) {
+  const areas = useMemo(
+    () =>
+      ROWS.map((row) => {
+        const y = (v: number) => row.top + (1 - v) * ROW_H;
+        const xs = points.map((p) => xAt(p.t, start, span));
+        let below = points.map(() => 0);
+        return LAYERS.map((layer) => {
+          const above = points.map((p, i) => below[i] + row.get(p)[layer.key]);
+          const upper = above.map((v, i) => `${xs[i]},${y(v)}`);
+          const lower = below.map((v, i) => `${xs[i]},${y(v)}`).reverse();
+          below = above;
+          return { ...layer, points: [...upper, ...lower].join(" ") };
+        });
+      }),
+    [points, start, span],
+  );
+
+  return (
+    <div className="mt-2">
+      <svg
+        viewBox={`0 0 ${W} ${H}`}
+        className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
+        aria-label="Pools de receptores apilados"
+      >
+        {timeTicks(start, start + span).map((t) => (
+          <line
+            key={`tick-${t}`}
+            x1={xAt(t, start, span)}
+            x2={xAt(t, start, span)}
+            y1={8}
+            y2={H - 4}
+            stroke="#e2e8f0"
+          />
+        ))}
+        {ROWS.map((row, ri) => (
+          <g key={row.label}>
+            <rect
+              x={PAD_L}
+              y={row.top}
+              width={PLOT_W}
+              height={ROW_H}
+              fill="#ffffff"
+              stroke="#e2e8f0"
+            />
+            {areas[ri].map((a) => (
+              <polygon
+                key={a.key}
+                points={a.points}
+                fill={a.color}
+                opacity={0.75}
+              />
+            ))}
+            <text
+              x={PAD_L - 4}
+              y={row.top + ROW_H / 2 + 4}
+              fontSize={10}
+              fill="#334155"
+              textAnchor="end"
+            >
+              {row.label}
+            </text>
+          </g>
+        ))}
+        {cursorT != null && (
+          <line
+            x1={xAt(cursorT, start, span)}
+            x2={xAt(cursorT, start, span)}
+            y1={8}
+            y2={H - 4}
+            stroke="#334155"
+            strokeWidth={1}
+            pointerEvents="none"
+          />
+        )}
+      </svg>
+      <div className="flex flex-wrap gap-3 mt-1 text-[11px] text-slate-600">
+        <span className="font-medium text-slate-700">Pools α4β2</span>
+        {LAYERS.map((l) => (
+          <span key={l.key} className="flex items-center gap-1">
+            <span
+              className="inline-block w-3 h-2 rounded-sm"
+              style={{ background: l.color, opacity: 0.75 }}
+            />
+            {l.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import type { SessionConfig } from "../engine/config";
+import {
+  duplicatePreset,
+  findPreset,
+  mergeLibrary,
+  movePreset,
+  parseLibrary,
+  presetFromConfig,
+  removePreset,
+  serializeLibrary,
+  updatePreset,
+} from "../engine/presetLibrary";
+import type { InitialState, Preset, PresetDef } from "../engine/presets";
+import { downloadText } from "../lib/download";
+
+const btn =
+  "px-2 py-1 rounded-lg border border-slate-200 bg-white text-xs disabled:opacity-40";
+const input = "w-full px-2 py-1 rounded-lg border border-slate-200 text-xs";
+
+/**
+ * Botones de “Modo clase” para toda la biblioteca + gestión: crear desde el
+ * escenario actual, duplicar, reordenar, renombrar, borrar e import/export.
+ * Los tres de serie son de solo lectura (se pueden duplicar y mover).
+ */
+export default function PresetLibrary({
+  library,
+  current,
+  onApply,
+  onChange,
+  getConfig,
+  getState,
+}: {
+  library: readonly PresetDef[];
+  current: Preset;
+  onApply: (p: PresetDef) => void;
+  onChange: (next: PresetDef[]) => void;
+  getConfig: () => SessionConfig;
+  getState: () => InitialState; // estado actual como punto de partida
+}) {
+  const [name, setName] = useState("");
+  const [fromState, setFromState] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const active = findPreset(library, current);
+
+  const create = () => {
+    const cfg = getConfig();
+    const label = name.trim() || `Preset ${library.length + 1}`;
+    const p = presetFromConfig(
+      cfg,
+      label,
+      "",
+      fromState ? getState() : cfg.initial,
+    );
+    onChange([...library, p]);
+    setName("");
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onChange(mergeLibrary(library, parseLibrary(await file.text())));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-2">
+        {library.map((p) => (
+          <button
+            key={p.id}
+            onClick={() => onApply(p)}
+            title={p.description}
+            className={`py-2 px-1 rounded-xl border text-xs ${current === p.id ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 mt-1">
+        {active ? active.description : "Escenario sin preset en la biblioteca."}
+      </p>
+
+      <details className="mt-2 p-3 rounded-2xl bg-slate-50 border border-slate-200">
+        <summary className="text-xs font-semibold text-slate-700 cursor-pointer">
+          Biblioteca de presets ({library.length})
+        </summary>
+
+        <div className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+          {library.map((p, i) => (
+            <div key={p.id} className="space-y-1">
+              <div className="flex items-center gap-1">
+                {p.builtin ? (
+                  <span className="flex-1 text-xs text-slate-700">
+                    {p.label} <span className="text-slate-400">(de serie)</span>
+                  </span>
+                ) : (
+                  <input
+                    className={input}
+                    value={p.label}
+                    aria-label="Nombre del preset"
+                    onChange={(e) =>
+                      onChange(
+                        updatePreset(library, p.id, { label: e.target.value }),
+                      )
+                    }
+                  />
+                )}
+                <button
+                  className={btn}
+                  aria-label="Subir"
+                  disabled={i === 0}
+                  onClick={() => onChange(movePreset(library, p.id, -1))}
+                >
+                  ↑
+                </button>
+                <button
+                  className={btn}
+                  aria-label="Bajar"
+                  disabled={i === library.length - 1}
+                  onClick={() => onChange(movePreset(library, p.id, 1))}
+                >
+                  ↓
+                </button>
+                <button
+                  className={btn}
+                  title="Duplicar"
+                  onClick={() => onChange(duplicatePreset(library, p.id))}
+                >
+                  ⧉
+                </button>
+                <button
+                  className={btn}
+                  aria-label="Borrar preset"
+                  disabled={p.builtin}
+                  onClick={() => onChange(removePreset(library, p.id))}
+                >
+                  ✕
+                </button>
+              </div>
+              {!p.builtin && (
+                <input
+                  className={input}
+                  value={p.description}
+                  placeholder="Descripción…"
+                  aria-label="Descripción del preset"
+                  onChange={(e) =>
+                    onChange(
+                      updatePreset(library, p.id, {
+                        description: e.target.value,
+                      }),
+                    )
+                  }
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-[1fr_auto] gap-2 mt-3">
+          <input
+            className={input}
+            value={name}
+            placeholder="Nombre (p.ej. Fumador en cadena)"
+            aria-label="Nombre del nuevo preset"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") create();
+            }}
+          />
+          <button className={btn} onClick={create}>
+            Guardar actual
+          </button>
+        </div>
+        <label className="flex items-center gap-2 mt-1 text-xs text-slate-700">
+          <input
+            type="checkbox"
+            checked={fromState}
+            onChange={(e) => setFromState(e.target.checked)}
+          />
+          Partir del estado actual (nicotina y receptores de ahora)
+        </label>
+        <p className="text-xs text-slate-500 mt-1">
+          Guarda parámetros, frecuencia, pauta, vía y fármacos del escenario
+          actual.
+        </p>
+
+        <div className="flex flex-wrap gap-2 mt-2">
+          <button
+            className={btn}
+            onClick={() =>
+              downloadText("presets-nicotina.json", serializeLibrary(library))
+            }
+          >
+            Exportar
+          </button>
+          <label className={`${btn} cursor-pointer`}>
+            Importar
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                void importFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+        {error && (
+          <p className="text-xs text-red-700 mt-1 whitespace-pre-line">
+            {error}
+          </p>
+        )}
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import {
+  describeAction,
+  parseReplay,
+  serializeReplay,
+  type Replay,
+} from "../engine/replay";
+import { downloadText } from "../lib/download";
+
+const btn =
+  "px-2 py-1 rounded-lg border border-slate-200 bg-white text-xs disabled:opacity-50";
+
+/**
+ * Grabar la sesión (puffs, presets, sliders, pausas…) con su minuto simulado
+ * y reproducirla después, a la velocidad elegida arriba.
+ */
+export default function ReplayPanel({
+  recording,
+  replay,
+  playIndex,
+  stopAtPauses,
+  onStopAtPausesChange,
+  onRecord,
+  onStopRecording,
+  onPlay,
+  onStopPlay,
+  onLoad,
+}: {
+  recording: number | null; // acciones grabadas (null = sin grabar)
+  replay: Replay | null;
+  playIndex: number | null; // siguiente acción (null = sin reproducir)
+  stopAtPauses: boolean;
+  onStopAtPausesChange: (v: boolean) => void;
+  onRecord: () => void;
+  onStopRecording: () => void;
+  onPlay: (r: Replay) => void;
+  onStopPlay: () => void;
+  onLoad: (r: Replay) => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+  const playing = playIndex != null;
+  const next = playing ? replay?.entries[playIndex] : undefined;
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onLoad(parseReplay(await file.text()));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="mt-4 p-3 rounded-2xl bg-slate-50 border border-slate-200">
+      <div className="text-xs font-semibold text-slate-700 mb-2">
+        Grabar y reproducir sesión
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {recording == null ? (
+          <button className={btn} disabled={playing} onClick={onRecord}>
+            ● Grabar
+          </button>
+        ) : (
+          <button className={btn} onClick={onStopRecording}>
+            ■ Detener ({recording})
+          </button>
+        )}
+        {playing ? (
+          <button className={btn} onClick={onStopPlay}>
+            ■ Parar
+          </button>
+        ) : (
+          <button
+            className={btn}
+            disabled={!replay || recording != null}
+            onClick={() => replay && onPlay(replay)}
+          >
+            ▶ Reproducir
+          </button>
+        )}
+        <button
+          className={btn}
+          disabled={!replay}
+          onClick={() =>
+            replay &&
+            downloadText("sesion-nicotina.json", serializeReplay(replay))
+          }
+        >
+          Descargar
+        </button>
+        <label className={`${btn} cursor-pointer`}>
+          Cargar
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              void importFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 mt-2 text-xs text-slate-700">
+        <input
+          type="checkbox"
+          checked={stopAtPauses}
+          onChange={(e) => onStopAtPausesChange(e.target.checked)}
+        />
+        Detenerse en las pausas grabadas
+      </label>
+
+      <div className="text-xs text-slate-500 mt-1 tabular-nums">
+        {recording != null
+          ? "Grabando desde t = 0 (se reinició el escenario)."
+          : replay
+            ? playing
+              ? `Acción ${playIndex} / ${replay.entries.length}${
+                  next
+                    ? ` · siguiente: ${describeAction(next.action)} (${next.t.toFixed(1)} min)`
+                    : ""
+                }`
+              : `${replay.entries.length} acciones · ${replay.endT.toFixed(0)} min simulados`
+            : "Grabar reinicia el escenario actual y guarda cada acción."}
+      </div>
+      {error && (
+        <p className="text-xs text-red-700 mt-1 whitespace-pre-line">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import {
+  cigaretteBout,
+  defaultBout,
+  normalizeSchedule,
+  parseSchedule,
+  serializeSchedule,
+  type CigaretteBout,
+  type DosingSchedule,
+} from "../engine/schedule";
+import { downloadText } from "../lib/download";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-slate-50 text-xs";
+const input =
+  "w-full px-2 py-1 rounded-lg border border-slate-200 text-xs tabular-nums";
+
+const BOUT_FIELDS: { key: keyof CigaretteBout; label: string; step: number }[] =
+  [
+    { key: "startMin", label: "Desde (min)", step: 1 },
+    { key: "endMin", label: "Hasta (min)", step: 1 },
+    { key: "everyMin", label: "Cada (min)", step: 1 },
+    { key: "puffsPerCig", label: "Caladas/cig.", step: 1 },
+    { key: "puffGapMin", label: "Entre caladas (min)", step: 0.1 },
+    { key: "dosePerPuff", label: "Dosis/calada", step: 0.005 },
+  ];
+
+/**
+ * Editor de pauta: eventos (min, dosis), generador de cigarrillos e
+ * import/export JSON. El loop y “+60 min” consumen esta lista.
+ */
+export default function ScheduleEditor({
+  schedule,
+  puffDose,
+  onChange,
+}: {
+  schedule: DosingSchedule;
+  puffDose: number; // params.puffDose: dosis por defecto de los eventos
+  onChange: (next: DosingSchedule) => void;
+}) {
+  const [newT, setNewT] = useState(0);
+  // Lo que no se ha tocado sigue la dosis por puff actual
+  const [doseEdit, setDoseEdit] = useState<number | null>(null);
+  const [boutEdits, setBoutEdits] = useState<Partial<CigaretteBout>>({});
+  const newDose = doseEdit ?? puffDose;
+  const bout: CigaretteBout = { ...defaultBout(puffDose), ...boutEdits };
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (events: DosingSchedule) => {
+    setError(null);
+    onChange(normalizeSchedule(events));
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      set(parseSchedule(await file.text()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="mt-4 p-3 rounded-2xl bg-slate-50 border border-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-xs font-semibold text-slate-700">
+          Pauta programada ({schedule.length} eventos)
+        </div>
+        <button className={btn} onClick={() => set([])}>
+          Vaciar
+        </button>
+      </div>
+
+      <div className="max-h-32 overflow-y-auto space-y-1">
+        {schedule.map((e, i) => (
+          <div
+            key={`${e.t}-${i}`}
+            className="flex items-center gap-2 text-xs text-slate-700 tabular-nums"
+          >
+            <span className="w-20">t = {e.t.toFixed(1)} min</span>
+            <span className="flex-1">dosis {e.dose.toFixed(3)}</span>
+            <button
+              className="text-slate-400 hover:text-slate-700"
+              aria-label="Quitar evento"
+              onClick={() => set(schedule.filter((_, j) => j !== i))}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {schedule.length === 0 && (
+          <div className="text-xs text-slate-500">
+            Sin eventos: solo puffs manuales/aleatorios.
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2 mt-2">
+        <input
+          className={input}
+          type="number"
+          min={0}
+          step={1}
+          value={newT}
+          aria-label="Minuto del evento"
+          onChange={(e) => setNewT(parseFloat(e.target.value) || 0)}
+        />
+        <input
+          className={input}
+          type="number"
+          min={0}
+          max={1}
+          step={0.01}
+          value={newDose}
+          aria-label="Dosis del evento"
+          onChange={(e) => setDoseEdit(parseFloat(e.target.value) || 0)}
+        />
+        <button
+          className={btn}
+          onClick={() => set([...schedule, { t: newT, dose: newDose }])}
+        >
+          Añadir
+        </button>
+      </div>
+
+      <details className="mt-2">
+        <summary className="text-xs text-slate-700 cursor-pointer">
+          Generar cigarrillos
+        </summary>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          {BOUT_FIELDS.map((f) => (
+            <label key={f.key} className="text-[11px] text-slate-600">
+              {f.label}
+              <input
+                className={input}
+                type="number"
+                min={0}
+                step={f.step}
+                value={bout[f.key]}
+                onChange={(e) =>
+                  setBoutEdits((b) => ({
+                    ...b,
+                    [f.key]: parseFloat(e.target.value) || 0,
+                  }))
+                }
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-2">
+          <button
+            className={btn}
+            onClick={() => set([...schedule, ...cigaretteBout(bout)])}
+          >
+            Añadir a la pauta
+          </button>
+          <button className={btn} onClick={() => set(cigaretteBout(bout))}>
+            Reemplazar pauta
+          </button>
+        </div>
+      </details>
+
+      <div className="flex gap-2 mt-2">
+        <button
+          className={btn}
+          onClick={() =>
+            downloadText("pauta-nicotina.json", serializeSchedule(schedule))
+          }
+        >
+          Exportar
+        </button>
+        <label className={`${btn} cursor-pointer`}>
+          Importar
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              void importFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-700 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+const btn =
+  "px-2 py-1 rounded-lg border border-slate-200 bg-slate-50 text-xs tabular-nums disabled:opacity-50";
+
+// Pasos de los botones: fino (≈ un frame de la historia) y grueso
+const STEPS = [
+  { label: "«", delta: -5, title: "−5 min" },
+  { label: "‹", delta: -0.5, title: "−0,5 min" },
+  { label: "›", delta: 0.5, title: "+0,5 min" },
+  { label: "»", delta: 5, title: "+5 min" },
+];
+
+/**
+ * Rebobinar: mueve el circuito a cualquier minuto del historial. `value`
+ * null = presente (simulación en vivo). Desde un instante pasado se puede
+ * volver al presente o continuar la simulación desde ahí.
+ */
+export default function Scrubber({
+  tFirst,
+  tLast,
+  value,
+  onChange,
+  onContinue,
+}: {
+  tFirst: number;
+  tLast: number;
+  value: number | null;
+  onChange: (t: number | null) => void;
+  onContinue: () => void;
+}) {
+  const empty = tLast <= tFirst;
+  const t = value ?? tLast;
+  // Al llegar al final se vuelve al presente
+  const go = (next: number) =>
+    onChange(next >= tLast ? null : Math.max(tFirst, next));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-slate-600">
+      <span className={value != null ? "font-medium text-amber-700" : ""}>
+        Rebobinar
+      </span>
+      {STEPS.slice(0, 2).map((s) => (
+        <button
+          key={s.label}
+          className={btn}
+          title={s.title}
+          disabled={empty}
+          onClick={() => go(t + s.delta)}
+        >
+          {s.label}
+        </button>
+      ))}
+      <input
+        type="range"
+        className="flex-1 min-w-40 accent-amber-600"
+        min={tFirst}
+        max={tLast}
+        step={0.05}
+        value={t}
+        disabled={empty}
+        aria-label="Minuto mostrado en el circuito"
+        onChange={(e) => go(parseFloat(e.target.value))}
+      />
+      {STEPS.slice(2).map((s) => (
+        <button
+          key={s.label}
+          className={btn}
+          title={s.title}
+          disabled={empty || value == null}
+          onClick={() => go(t + s.delta)}
+        >
+          {s.label}
+        </button>
+      ))}
+      <span className="w-16 text-right tabular-nums">{t.toFixed(1)} min</span>
+      <button
+        className={btn}
+        disabled={value == null}
+        onClick={() => onChange(null)}
+      >
+        Presente
+      </button>
+      <button
+        className={btn}
+        disabled={value == null}
+        title="Descarta lo posterior y sigue simulando desde este minuto"
+        onClick={onContinue}
+      >
+        Continuar desde aquí
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import {
+  encodeConfigHash,
+  parseConfig,
+  serializeConfig,
+  type SessionConfig,
+} from "../engine/config";
+import { downloadText } from "../lib/download";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-white text-xs";
+
+/**
+ * Compartir el escenario: enlace con la configuración en el hash y
+ * exportar/importar el JSON versionado.
+ */
+export default function SessionPanel({
+  getConfig,
+  onLoad,
+  bootError,
+}: {
+  getConfig: () => SessionConfig;
+  onLoad: (cfg: SessionConfig) => void;
+  bootError: string | null;
+}) {
+  const [msg, setMsg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(
+    bootError ? `Enlace no válido:\n${bootError}` : null,
+  );
+
+  // No toca la URL actual: el hash manda al arrancar y taparía la sesión
+  // autoguardada en cada recarga
+  const copyLink = () => {
+    const { origin, pathname, search } = window.location;
+    const url = `${origin}${pathname}${search}${encodeConfigHash(getConfig())}`;
+    const manual = () => {
+      setMsg(null);
+      setError(`No se pudo copiar; copia el enlace a mano:\n${url}`);
+    };
+    setError(null);
+    if (!navigator.clipboard) return manual();
+    navigator.clipboard
+      .writeText(url)
+      .then(() => setMsg("Enlace copiado al portapapeles."), manual);
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onLoad(parseConfig(await file.text()));
+      setError(null);
+      setMsg(`Escenario “${file.name}” cargado.`);
+    } catch (e) {
+      setMsg(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="mt-4 p-3 rounded-2xl bg-slate-50 border border-slate-200">
+      <div className="text-xs font-semibold text-slate-700 mb-2">
+        Compartir escenario
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button className={btn} onClick={copyLink}>
+          Copiar enlace
+        </button>
+        <button
+          className={btn}
+          onClick={() =>
+            downloadText(
+              "escenario-nicotina.json",
+              serializeConfig(getConfig()),
+            )
+          }
+        >
+          Exportar JSON
+        </button>
+        <label className={`${btn} cursor-pointer`}>
+          Importar JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              void importFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {msg && <p className="text-xs text-slate-600 mt-1">{msg}</p>}
+      {error && (
+        <p className="text-xs text-red-700 mt-1 whitespace-pre-line break-all">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,535 @@
+import { useRef, useState } from "react";
+import type { CompareRun } from "../engine/compare";
+import type { ModelParams } from "../engine/model";
+import { PARAM_SPECS, type NumericParamKey } from "../engine/paramSpec";
+import { ROUTES, type DoseRoute } from "../engine/routes";
+import {
+  MAX_SWEEP_STEPS,
+  ROUTE_ONLY_PARAMS,
+  SWEEP_METRICS,
+  sweepAxisError,
+  sweepRow,
+  sweepToCsv,
+  sweepValues,
+  type SweepAxis,
+  type SweepCell,
+  type SweepMetric,
+  type SweepResult,
+  type SweepStimulus,
+} from "../engine/sweep";
+import { downloadText } from "../lib/download";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-slate-50 text-xs";
+const input = "w-16 px-1 py-0.5 rounded-lg border border-slate-200 text-xs";
+
+const DURATIONS = [60, 120, 240];
+
+const W = 760;
+const H = 220;
+const PAD = 40;
+
+const specOf = (key: NumericParamKey) =>
+  PARAM_SPECS.find((p) => p.key === key) ?? PARAM_SPECS[0];
+
+// Eje nuevo: todo el rango válido del parámetro
+const axisFor = (key: NumericParamKey): SweepAxis => {
+  const spec = specOf(key);
+  return { key, from: spec.min, to: spec.max, steps: 6 };
+};
+
+const fmt = (v: number | null) => (v == null ? "—" : String(+v.toPrecision(3)));
+
+// Escala de color del mapa: claro (mínimo) → azul oscuro (máximo)
+const heat = (f: number) => `hsl(${220 - f * 30}, 70%, ${95 - f * 60}%)`;
+
+const clamp = (v: number, lo: number, hi: number) =>
+  Math.min(hi, Math.max(lo, v));
+
+// Al salir del campo: rango del parámetro y nº entero de valores
+const clampAxis = (axis: SweepAxis): SweepAxis => {
+  const spec = specOf(axis.key);
+  return {
+    ...axis,
+    from: clamp(axis.from, spec.min, spec.max),
+    to: clamp(axis.to, spec.min, spec.max),
+    steps: clamp(Math.round(axis.steps), 2, MAX_SWEEP_STEPS),
+  };
+};
+
+function AxisControls({
+  label,
+  axis,
+  exclude,
+  route,
+  onChange,
+}: {
+  label: string;
+  axis: SweepAxis;
+  exclude: NumericParamKey | null; // el del otro eje
+  route: DoseRoute;
+  onChange: (next: SweepAxis) => void;
+}) {
+  const spec = specOf(axis.key);
+  const num = (field: "from" | "to" | "steps", raw: string) => {
+    const v = parseFloat(raw);
+    if (Number.isFinite(v)) onChange({ ...axis, [field]: v });
+  };
+  const onBlur = () => onChange(clampAxis(axis));
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+      <span className="w-4 font-medium">{label}</span>
+      <select
+        className={btn}
+        value={axis.key}
+        aria-label={`Parámetro del eje ${label}`}
+        onChange={(e) => onChange(axisFor(e.target.value as NumericParamKey))}
+      >
+        {PARAM_SPECS.map((p) => {
+          const only = ROUTE_ONLY_PARAMS[p.key];
+          return (
+            <option
+              key={p.key}
+              value={p.key}
+              disabled={p.key === exclude || (only && only !== route)}
+            >
+              {p.label}
+              {only && ` (solo ${ROUTES[only].label.toLowerCase()})`}
+            </option>
+          );
+        })}
+      </select>
+      <label className="flex items-center gap-1">
+        de
+        <input
+          className={input}
+          type="number"
+          min={spec.min}
+          max={spec.max}
+          step={spec.step}
+          value={axis.from}
+          onChange={(e) => num("from", e.target.value)}
+          onBlur={onBlur}
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        a
+        <input
+          className={input}
+          type="number"
+          min={spec.min}
+          max={spec.max}
+          step={spec.step}
+          value={axis.to}
+          onChange={(e) => num("to", e.target.value)}
+          onBlur={onBlur}
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        valores
+        <input
+          className={input}
+          type="number"
+          min={2}
+          max={MAX_SWEEP_STEPS}
+          step={1}
+          value={axis.steps}
+          onChange={(e) => num("steps", e.target.value)}
+          onBlur={onBlur}
+        />
+      </label>
+      {spec.unit && <span className="text-slate-400">{spec.unit}</span>}
+    </div>
+  );
+}
+
+/**
+ * Barrido de parámetros: uno (curva) o dos (mapa de calor) recorren un
+ * rango y cada combinación se simula offline con la pauta, semilla y
+ * estado inicial actuales. Se ejecuta a demanda, fila a fila.
+ */
+export default function SweepPanel({
+  params,
+  puffsPerMin,
+  base,
+}: {
+  params: ModelParams;
+  puffsPerMin: number;
+  base: Omit<CompareRun, "durationMin">;
+}) {
+  const route = base.delivery.route;
+  const [x, setX] = useState<SweepAxis>(() =>
+    axisFor(route === "cigarette" ? "puffDose" : "desensWindowMin"),
+  );
+  const [y, setY] = useState<SweepAxis | null>(null);
+  const [metric, setMetric] = useState<SweepMetric>("peakDA");
+  const [durationMin, setDurationMin] = useState(DURATIONS[1]);
+  const [stimulus, setStimulus] = useState<SweepStimulus>("puff");
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const runIdRef = useRef(0);
+
+  const run = async () => {
+    const id = ++runIdRef.current;
+    const runBase = { ...base, durationMin };
+    const ys = y ? sweepValues(y) : [NaN];
+    const cells: SweepCell[][] = [];
+    setProgress(0);
+    for (const vy of ys) {
+      // Cede el hilo entre filas para que se pinte el progreso
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (runIdRef.current !== id) return;
+      cells.push(sweepRow(params, puffsPerMin, runBase, stimulus, x, y, vy));
+      setProgress(cells.length / ys.length);
+    }
+    setResult({ x, y, xs: sweepValues(x), ys, cells });
+    setProgress(null);
+  };
+
+  const errors = [
+    sweepAxisError(x, route),
+    y && sweepAxisError(y, route),
+    y?.key === x.key ? "Los dos ejes deben ser parámetros distintos." : null,
+  ].filter((e): e is string => e != null);
+
+  const cancel = () => {
+    runIdRef.current++;
+    setProgress(null);
+  };
+
+  const m = SWEEP_METRICS.find((s) => s.id === metric) ?? SWEEP_METRICS[0];
+  const values = (result?.cells.flat() ?? [])
+    .map((c) => c[metric])
+    .filter((v): v is number => v != null);
+  const min = values.length ? Math.min(...values) : 0;
+  const max = values.length ? Math.max(...values) : 1;
+  const norm = (v: number) => (v - min) / (max - min || 1);
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-medium text-slate-700">
+          Barrido de parámetros
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            Estímulo
+            <select
+              className={btn}
+              value={stimulus}
+              onChange={(e) => setStimulus(e.target.value as SweepStimulus)}
+            >
+              <option value="puff">Un puff en t = 0</option>
+              <option value="current">Pauta y frecuencia actuales</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            Duración
+            <select
+              className={btn}
+              value={durationMin}
+              onChange={(e) => setDurationMin(parseInt(e.target.value, 10))}
+            >
+              {DURATIONS.map((d) => (
+                <option key={d} value={d}>
+                  {d} min
+                </option>
+              ))}
+            </select>
+          </label>
+          {progress == null ? (
+            <button className={btn} disabled={errors.length > 0} onClick={run}>
+              Ejecutar
+            </button>
+          ) : (
+            <button className={btn} onClick={cancel}>
+              Cancelar ({Math.round(progress * 100)}%)
+            </button>
+          )}
+          <button
+            className={btn}
+            disabled={!result}
+            onClick={() =>
+              result &&
+              downloadText(
+                "barrido-nicotina.csv",
+                sweepToCsv(result),
+                "text/csv",
+              )
+            }
+          >
+            CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1 mb-2">
+        <AxisControls
+          label="X"
+          axis={x}
+          exclude={y?.key ?? null}
+          route={route}
+          onChange={setX}
+        />
+        {y ? (
+          <div className="flex items-center gap-2">
+            <AxisControls
+              label="Y"
+              axis={y}
+              exclude={x.key}
+              route={route}
+              onChange={setY}
+            />
+            <button
+              className="text-slate-400 hover:text-slate-700 text-xs"
+              aria-label="Quitar eje Y"
+              onClick={() => setY(null)}
+            >
+              ✕
+            </button>
+          </div>
+        ) : (
+          <button
+            className={btn}
+            onClick={() =>
+              setY(
+                axisFor(
+                  x.key === "desensWindowMin"
+                    ? "desensRateDA"
+                    : "desensWindowMin",
+                ),
+              )
+            }
+          >
+            Añadir segundo parámetro (mapa de calor)
+          </button>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <p className="text-xs text-red-700 mb-2 whitespace-pre-line">
+          {errors.join("\n")}
+        </p>
+      )}
+
+      {!result ? (
+        <p className="text-xs text-slate-500">
+          Elige uno o dos parámetros y su rango; cada valor se simula con la
+          misma semilla y estado inicial del preset. Con un parámetro se dibuja
+          una curva por métrica; con dos, un mapa de calor. Hasta{" "}
+          {MAX_SWEEP_STEPS} valores por eje.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 mb-1 text-xs text-slate-600">
+            Métrica
+            {SWEEP_METRICS.map((s) => (
+              <button
+                key={s.id}
+                className={`px-2 py-1 rounded-lg border text-xs ${s.id === metric ? "bg-slate-900 text-white border-slate-900" : "bg-slate-50 border-slate-200"}`}
+                onClick={() => setMetric(s.id)}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+
+          {result.y ? (
+            <Heatmap result={result} metric={metric} norm={norm} />
+          ) : (
+            <Curve result={result} metric={metric} min={min} max={max} />
+          )}
+          <div className="flex items-center gap-2 text-[11px] text-slate-500 mt-1">
+            <span>
+              {m.label} ({m.unit})
+              {metric === "timeToHalfDesens" &&
+                " · — = no llega al 50 % en la duración"}
+            </span>
+            {result.y && (
+              <span className="flex items-center gap-1">
+                {fmt(min)}
+                <span
+                  className="inline-block w-24 h-2 rounded"
+                  style={{
+                    background: `linear-gradient(to right, ${heat(0)}, ${heat(1)})`,
+                  }}
+                />
+                {fmt(max)}
+              </span>
+            )}
+          </div>
+
+          {!result.y && (
+            <table className="w-full mt-2 text-xs text-slate-700 tabular-nums">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="font-medium py-1">
+                    {specOf(result.x.key).label}
+                  </th>
+                  {SWEEP_METRICS.map((s) => (
+                    <th key={s.id} className="font-medium text-right">
+                      {s.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.xs.map((vx, i) => (
+                  <tr key={i} className="border-t border-slate-100">
+                    <td className="py-1">{fmt(vx)}</td>
+                    {SWEEP_METRICS.map((s) => (
+                      <td key={s.id} className="text-right">
+                        {fmt(result.cells[0][i][s.id])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function Curve({
+  result,
+  metric,
+  min,
+  max,
+}: {
+  result: SweepResult;
+  metric: SweepMetric;
+  min: number;
+  max: number;
+}) {
+  const { xs } = result;
+  const span = xs[xs.length - 1] - xs[0] || 1;
+  const px = (v: number) => PAD + ((v - xs[0]) / span) * (W - PAD * 2);
+  const py = (v: number) =>
+    PAD / 2 + (1 - (v - min) / (max - min || 1)) * (H - PAD * 1.5);
+  const points = xs.flatMap((vx, i) => {
+    const v = result.cells[0][i][metric];
+    return v == null ? [] : [{ x: px(vx), y: py(v), vx, v }];
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
+      aria-label="Métrica en función del parámetro barrido"
+    >
+      {[min, max].map((v, i) => (
+        <text
+          key={i}
+          x={PAD - 4}
+          y={py(v) + 3}
+          fontSize="10"
+          textAnchor="end"
+          fill="#64748b"
+        >
+          {fmt(v)}
+        </text>
+      ))}
+      {xs.map((vx, i) => (
+        <text
+          key={i}
+          x={px(vx)}
+          y={H - 6}
+          fontSize="10"
+          textAnchor="middle"
+          fill="#64748b"
+        >
+          {fmt(vx)}
+        </text>
+      ))}
+      <polyline
+        points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+        fill="none"
+        stroke="#2563eb"
+        strokeWidth={2}
+      />
+      {points.map((p, i) => (
+        <circle key={i} cx={p.x} cy={p.y} r={3} fill="#2563eb">
+          <title>
+            {specOf(result.x.key).label} = {fmt(p.vx)}: {fmt(p.v)}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+function Heatmap({
+  result,
+  metric,
+  norm,
+}: {
+  result: SweepResult;
+  metric: SweepMetric;
+  norm: (v: number) => number;
+}) {
+  const { xs, ys } = result;
+  const cw = (W - PAD * 2) / xs.length;
+  const ch = (H - PAD * 1.5) / ys.length;
+  const xLabel = specOf(result.x.key).label;
+  const yLabel = result.y ? specOf(result.y.key).label : "";
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
+      aria-label="Mapa de calor de la métrica según los dos parámetros"
+    >
+      {ys.map((vy, iy) => {
+        // Y crece hacia arriba
+        const top = PAD / 2 + (ys.length - 1 - iy) * ch;
+        return (
+          <g key={iy}>
+            <text
+              x={PAD - 4}
+              y={top + ch / 2 + 3}
+              fontSize="10"
+              textAnchor="end"
+              fill="#64748b"
+            >
+              {fmt(vy)}
+            </text>
+            {xs.map((vx, ix) => {
+              const v = result.cells[iy][ix][metric];
+              return (
+                <rect
+                  key={ix}
+                  x={PAD + ix * cw}
+                  y={top}
+                  width={cw - 1}
+                  height={ch - 1}
+                  fill={v == null ? "#e2e8f0" : heat(norm(v))}
+                >
+                  <title>
+                    {xLabel} = {fmt(vx)} · {yLabel} = {fmt(vy)}: {fmt(v)}
+                  </title>
+                </rect>
+              );
+            })}
+          </g>
+        );
+      })}
+      {xs.map((vx, ix) => (
+        <text
+          key={ix}
+          x={PAD + (ix + 0.5) * cw}
+          y={H - 6}
+          fontSize="10"
+          textAnchor="middle"
+          fill="#64748b"
+        >
+          {fmt(vx)}
+        </text>
+      ))}
+      <text x={W - PAD} y={12} fontSize="10" textAnchor="end" fill="#64748b">
+        X: {xLabel} · Y: {yLabel}
+      </text>
+    </svg>
+  );
+}
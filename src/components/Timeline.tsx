@@ -0,0 +1,960 @@
+import {
+  useEffect,
+  useEffectEvent,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type PointerEvent,
+  type ReactNode,
+  type RefObject,
+} from "react";
+import {
+  HISTORY_MAX_MIN,
+  decimate,
+  pointAt,
+  sliceByTime,
+} from "../engine/history";
+import { DRUGS, DRUG_IDS } from "../engine/drugs";
+import { clamp01, lowerBound } from "../engine/math";
+import type { TracePoint } from "../engine/model";
+import { eventsBetween, type DosingSchedule } from "../engine/schedule";
+import type { SimEvent } from "../engine/events";
+import { EVENT_COLORS } from "./eventColors";
+import PoolChart from "./PoolChart";
+import { PAD_L, PAD_R, PLOT_W, W, formatMin, timeTicks } from "./timelineAxis";
+
+const btn =
+  "px-2 py-0.5 rounded-lg border border-slate-200 bg-slate-50 text-xs";
+const btnOn =
+  "px-2 py-0.5 rounded-lg border border-slate-900 bg-slate-900 text-white text-xs";
+
+// Geometría (unidades de viewBox); el alto crece con las filas de leyenda
+const TOP = 10;
+const LEGEND_ROW = 16;
+const BAND_H = 10; // alto de cada banda
+const BAND_GAP = 4; // separación entre bandas
+const AXIS_H = 16; // etiquetas de tiempo
+const BASE_H = 160; // con una fila de leyenda
+
+type Geometry = {
+  h: number;
+  plotTop: number;
+  plotH: number;
+  nicBandY: number;
+  desBandY: number;
+};
+
+function geometry(legendRows: number): Geometry {
+  const h = BASE_H + (legendRows - 1) * LEGEND_ROW;
+  const plotTop = TOP + legendRows * LEGEND_ROW + 10;
+  const nicBandY = h - AXIS_H - BAND_H * 2 - BAND_GAP;
+  return {
+    h,
+    plotTop,
+    plotH: nicBandY - 6 - plotTop,
+    nicBandY,
+    desBandY: nicBandY + BAND_H + BAND_GAP,
+  };
+}
+
+const MINI_H = 34;
+const MAX_DRAWN = 600; // puntos por serie tras decimar
+const BAND_BINS = 60;
+const MIN_SPAN_MIN = 2;
+
+const SPAN_PRESETS = [
+  { label: "10 min", min: 10 },
+  { label: "1 h", min: 60 },
+  { label: "6 h", min: 6 * 60 },
+  { label: "24 h", min: 24 * 60 },
+];
+
+type SeriesId =
+  | "da"
+  | "gaba"
+  | "nic"
+  | "plasma"
+  | "direct"
+  | "indirect"
+  | "achDrive"
+  | "gluDrive"
+  | "desDA"
+  | "desGABA"
+  | "craving"
+  | "varenicline"
+  | "mecamylamine"
+  | "bandNic"
+  | "bandDes";
+
+type Series = {
+  id: SeriesId;
+  label: string;
+  color: string;
+  get: (p: TracePoint) => number;
+  width?: number; // sin width = banda (no línea)
+  dash?: string;
+  opacity?: number;
+  fixed?: boolean; // escala 0–1 propia (no sigue el eje Y de DA/GABA)
+  pk?: boolean; // solo en modo PK
+};
+
+// En orden de leyenda; se dibujan al revés para que DA quede encima
+const SERIES: Series[] = [
+  {
+    id: "da",
+    label: "DA",
+    color: "#111827",
+    get: (p) => p.da,
+    width: 3.2,
+    opacity: 0.95,
+  },
+  {
+    id: "gaba",
+    label: "GABA",
+    color: "#ee0f0f",
+    get: (p) => p.gaba,
+    width: 2.2,
+    opacity: 0.85,
+  },
+  {
+    id: "nic",
+    label: "Nicotina",
+    color: "#64748b",
+    get: (p) => p.nic,
+    width: 1.6,
+    dash: "4 3",
+    opacity: 0.8,
+    fixed: true,
+  },
+  {
+    id: "plasma",
+    label: "Nic. plasma",
+    color: "#0891b2",
+    get: (p) => p.plasma,
+    width: 1.6,
+    dash: "1 3",
+    opacity: 0.9,
+    fixed: true,
+    pk: true,
+  },
+  {
+    id: "direct",
+    label: "Directa",
+    color: "#16a34a",
+    get: (p) => p.direct,
+    width: 1.8,
+  },
+  {
+    id: "indirect",
+    label: "Indirecta",
+    color: "#ea580c",
+    get: (p) => p.indirect,
+    width: 1.8,
+  },
+  {
+    id: "achDrive",
+    label: "ACh drive",
+    color: "#0284c7",
+    get: (p) => p.achDrive,
+    width: 1.5,
+    dash: "6 3",
+  },
+  {
+    id: "gluDrive",
+    label: "Glu drive",
+    color: "#ca8a04",
+    get: (p) => p.gluDrive,
+    width: 1.5,
+    dash: "6 3",
+  },
+  {
+    id: "desDA",
+    label: "Desens DA",
+    color: "#7c3aed",
+    get: (p) => p.poolDA.desens,
+    width: 1.8,
+    fixed: true,
+  },
+  {
+    id: "desGABA",
+    label: "Desens GABA",
+    color: "#c026d3",
+    get: (p) => p.poolGABA.desens,
+    width: 1.8,
+    dash: "5 3",
+    fixed: true,
+  },
+  {
+    id: "craving",
+    label: "Craving",
+    color: "#db2777",
+    get: (p) => p.craving,
+    width: 2,
+    dash: "8 3",
+    fixed: true,
+  },
+  ...DRUG_IDS.map((id) => ({
+    id,
+    label: DRUGS[id].label,
+    color: DRUGS[id].color,
+    get: (p: TracePoint) => p.drugs[id],
+    width: 1.6,
+    dash: "2 2",
+    fixed: true,
+  })),
+  {
+    id: "bandNic",
+    label: "Nicotina (banda)",
+    color: "#94a3b8",
+    get: (p) => p.nic,
+  },
+  {
+    id: "bandDes",
+    label: "Desens (total)",
+    color: "#7c3aed",
+    get: (p) => p.desAll,
+  },
+];
+
+const DEFAULT_SHOWN: SeriesId[] = [
+  "da",
+  "gaba",
+  "nic",
+  "plasma",
+  "craving",
+  "bandNic",
+  "bandDes",
+];
+
+// Ancho aproximado de cada entrada de la leyenda SVG (muestra + texto)
+const legendWidth = (label: string) => 30 + label.length * 6.2 + 14;
+
+function legendLayout(items: readonly Series[]) {
+  let x = PAD_L + 10;
+  let row = 0;
+  const out = items.map((s) => {
+    const w = legendWidth(s.label);
+    if (x + w > W - PAD_R && x > PAD_L + 10) {
+      row += 1;
+      x = PAD_L + 10;
+    }
+    const pos = { s, x, y: TOP + row * LEGEND_ROW + 8 };
+    x += w;
+    return pos;
+  });
+  return { items: out, rows: row + 1 };
+}
+
+const seriesLabel = (s: Series, pkMode: boolean) =>
+  s.id === "nic" && pkMode ? "Nic. cerebro" : s.label;
+
+type Domain = { min: number; max: number };
+
+// Y en el plot para un valor según el dominio (DA/GABA) o fijo 0–1
+function yIn(g: Geometry, { min, max }: Domain, v: number) {
+  const norm = (v - min) / (max - min || 1);
+  return g.plotTop + (1 - clamp01(norm)) * g.plotH;
+}
+
+const FIXED: Domain = { min: 0, max: 1 };
+
+const signed = (v: number, digits = 3) =>
+  `${v >= 0 ? "+" : "−"}${Math.abs(v).toFixed(digits)}`;
+
+// Autoescalado sobre lo visible de las series de circuito (DA, GABA…)
+function autoDomain(
+  points: readonly TracePoint[],
+  series: readonly Series[],
+): Domain {
+  if (points.length < 2 || series.length === 0) return FIXED;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const p of points) {
+    for (const s of series) {
+      const v = s.get(p);
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+  }
+
+  // Evita colapsar el rango (si DA/GABA casi no varían)
+  const minRange = 0.15;
+  if (max - min < minRange) {
+    const mid = (min + max) / 2;
+    min = mid - minRange / 2;
+    max = mid + minRange / 2;
+  }
+
+  // margen visual
+  const padding = 0.1 * (max - min);
+  return {
+    min: Math.max(0, min - padding),
+    max: Math.min(1, max + padding),
+  };
+}
+
+/**
+ * Timeline con eje de tiempo real: zoom (rueda / presets), arrastre para
+ * desplazarse, minimapa del historial completo y eje Y fijo o automático.
+ * Sin desplazar, sigue el último minuto simulado.
+ */
+export default function Timeline({
+  trace,
+  schedule,
+  pkMode,
+  events,
+  svgRef,
+  actions,
+  scrubT = null,
+  children,
+}: {
+  trace: readonly TracePoint[];
+  schedule: DosingSchedule;
+  pkMode: boolean;
+  events: readonly SimEvent[];
+  svgRef: RefObject<SVGSVGElement | null>;
+  actions?: ReactNode;
+  scrubT?: number | null; // instante rebobinado (línea ámbar)
+  children?: ReactNode; // bajo el gráfico (p.ej. el scrubber)
+}) {
+  const [span, setSpan] = useState(60);
+  const [endMin, setEndMin] = useState<number | null>(null); // null = en vivo
+  const [yMode, setYMode] = useState<"auto" | "fijo">("auto");
+  const [shown, setShown] = useState<ReadonlySet<SeriesId>>(
+    () => new Set(DEFAULT_SHOWN),
+  );
+  const [showPools, setShowPools] = useState(true);
+  const drag = useRef<{
+    x: number;
+    end: number;
+    width: number;
+    moved: boolean;
+  } | null>(null);
+  // Inspector: cruz bajo el puntero/teclado y punto fijado para comparar
+  const [hoverT, setHoverT] = useState<number | null>(null);
+  const [pinnedT, setPinnedT] = useState<number | null>(null);
+
+  const tFirst = trace[0]?.t ?? 0;
+  const tLast = trace.at(-1)?.t ?? 0;
+  const liveEndFor = (s: number) => Math.max(tLast, tFirst + s);
+  const liveEnd = liveEndFor(span);
+  const end = endMin == null ? liveEnd : Math.min(endMin, liveEnd);
+  const start = end - span;
+
+  // Fija la ventana (con límites); al llegar al final vuelve a “en vivo”
+  const setView = (s: number, e: number) => {
+    const nextSpan = Math.min(HISTORY_MAX_MIN, Math.max(MIN_SPAN_MIN, s));
+    const live = liveEndFor(nextSpan);
+    const nextEnd = Math.min(live, Math.max(tFirst + nextSpan, e));
+    setSpan(nextSpan);
+    setEndMin(nextEnd >= live ? null : nextEnd);
+  };
+
+  const x = (t: number) => PAD_L + ((t - start) / span) * PLOT_W;
+
+  const available = useMemo(
+    () => SERIES.filter((s) => pkMode || !s.pk),
+    [pkMode],
+  );
+  const active = useMemo(
+    () => available.filter((s) => shown.has(s.id)),
+    [available, shown],
+  );
+  const lines = useMemo(
+    () => active.filter((s) => s.width !== undefined),
+    [active],
+  );
+  const legend = useMemo(() => legendLayout(active), [active]);
+  const g = useMemo(() => geometry(legend.rows), [legend.rows]);
+  const toggle = (id: SeriesId) =>
+    setShown((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const visible = useMemo(
+    () => sliceByTime(trace, start, end),
+    [trace, start, end],
+  );
+  const drawn = useMemo(() => decimate(visible, MAX_DRAWN), [visible]);
+
+  const yDomain = useMemo<Domain>(
+    () =>
+      yMode === "fijo"
+        ? FIXED
+        : autoDomain(
+            visible,
+            lines.filter((s) => !s.fixed),
+          ),
+    [visible, yMode, lines],
+  );
+
+  const pts = useMemo(() => {
+    const xt = (t: number) => PAD_L + ((t - start) / span) * PLOT_W;
+    const polylines = lines.map((s) => {
+      const domain = s.fixed ? FIXED : yDomain;
+      return {
+        s,
+        points: drawn
+          .map((p) => `${xt(p.t)},${yIn(g, domain, s.get(p))}`)
+          .join(" "),
+      };
+    });
+
+    // Bandas: BAND_BINS celdas a lo ancho de la ventana (por tiempo)
+    const w = PLOT_W / BAND_BINS;
+    const band = Array.from({ length: BAND_BINS }).flatMap((_, bi) => {
+      const tc = start + ((bi + 0.5) / BAND_BINS) * span;
+      if (trace.length === 0 || tc < tFirst || tc > tLast) return [];
+      const p = trace[Math.min(trace.length - 1, lowerBound(trace, tc))];
+      return [
+        {
+          x: PAD_L + bi * w,
+          w,
+          vNic: clamp01(p.nic),
+          vDes: clamp01(p.desAll),
+        },
+      ];
+    });
+
+    // Orden de dibujo: al revés de la leyenda (DA encima)
+    return { lines: polylines.reverse(), band };
+  }, [drawn, trace, yDomain, start, span, tFirst, tLast, lines, g]);
+
+  const ticks = useMemo(() => timeTicks(start, end), [start, end]);
+
+  // Marcadores de eventos; la etiqueta se omite si pisa a la anterior
+  const markers = useMemo(() => {
+    const out: { e: SimEvent; x: number; showLabel: boolean }[] = [];
+    let lastLabelX = -Infinity;
+    for (const e of events) {
+      if (e.t < start || e.t > end) continue;
+      const mx = PAD_L + ((e.t - start) / span) * PLOT_W;
+      const showLabel = mx - lastLabelX > e.short.length * 5 + 8;
+      if (showLabel) lastLabelX = mx;
+      out.push({ e, x: mx, showLabel });
+    }
+    return out;
+  }, [events, start, end, span]);
+
+  const mini = useMemo(() => {
+    const t1 = liveEnd;
+    const mx = (t: number) =>
+      PAD_L + ((t - tFirst) / (t1 - tFirst || 1)) * PLOT_W;
+    return {
+      x: mx,
+      da: decimate(trace, 300)
+        .map((p) => `${mx(p.t)},${2 + (1 - clamp01(p.da)) * (MINI_H - 4)}`)
+        .join(" "),
+    };
+  }, [trace, tFirst, liveEnd]);
+
+  // Rueda = zoom alrededor del puntero (listener nativo para poder evitar el scroll)
+  const onWheel = useEffectEvent((e: WheelEvent) => {
+    const el = svgRef.current;
+    if (!el || trace.length < 2) return;
+    e.preventDefault();
+    const rect = el.getBoundingClientRect();
+    const vx = ((e.clientX - rect.left) / rect.width) * W;
+    const f = clamp01((vx - PAD_L) / PLOT_W);
+    const tp = start + f * span;
+    const nextSpan = span * Math.exp(e.deltaY * 0.0015);
+    setView(nextSpan, tp + (1 - f) * nextSpan);
+  });
+
+  useEffect(() => {
+    const el = svgRef.current;
+    if (!el) return;
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [svgRef]);
+
+  const panTo = (clientX: number) => {
+    const d = drag.current;
+    if (!d) return;
+    if (Math.abs(clientX - d.x) > 3) d.moved = true;
+    if (!d.moved) return;
+    const dtMin = ((clientX - d.x) / d.width) * (W / PLOT_W) * span;
+    setView(span, d.end - dtMin);
+  };
+
+  const tFromClient = (clientX: number, el: Element) => {
+    const rect = el.getBoundingClientRect();
+    const vx = ((clientX - rect.left) / rect.width) * W;
+    return start + clamp01((vx - PAD_L) / PLOT_W) * span;
+  };
+
+  // Flechas mueven la cruz (Mayús = pasos largos), Enter fija, Esc suelta
+  const onKeyDown = (e: KeyboardEvent<SVGSVGElement>) => {
+    const from = hoverT ?? Math.min(end, tLast);
+    const stepMin = span / (e.shiftKey ? 10 : 100);
+    const clampT = (t: number) => Math.max(start, Math.min(end, t));
+    if (e.key === "ArrowLeft") setHoverT(clampT(from - stepMin));
+    else if (e.key === "ArrowRight") setHoverT(clampT(from + stepMin));
+    else if (e.key === "Home") setHoverT(start);
+    else if (e.key === "End") setHoverT(end);
+    else if (e.key === "Enter" || e.key === " ") setPinnedT(from);
+    else if (e.key === "Escape") {
+      setPinnedT(null);
+      setHoverT(null);
+    } else return;
+    e.preventDefault();
+  };
+
+  const hoverPt = hoverT == null ? null : pointAt(trace, hoverT);
+  // Tras un reset el punto fijado queda “en el futuro”: no se muestra
+  const pinnedPt =
+    pinnedT == null || pinnedT > tLast ? null : pointAt(trace, pinnedT);
+  // El inspector muestra todas las series (también las ocultas)
+  const readout = available
+    .filter((s) => s.id !== "bandNic")
+    .map((s) => ({ ...s, label: seriesLabel(s, pkMode) }));
+  const inView = (p: TracePoint | null): p is TracePoint =>
+    p !== null && p.t >= start && p.t <= end;
+
+  const centerFromMini = (e: PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const vx = ((e.clientX - rect.left) / rect.width) * W;
+    const t = tFirst + ((vx - PAD_L) / PLOT_W) * (liveEnd - tFirst);
+    setView(span, t + span / 2);
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-slate-700">Timeline</div>
+        <div className="flex items-center gap-2">{actions}</div>
+      </div>
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          width="100%"
+          viewBox={`0 0 ${W} ${g.h}`}
+          className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200 cursor-crosshair select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-400"
+          style={{ touchAction: "pan-y" }}
+          tabIndex={0}
+          aria-label="Timeline: flechas para inspeccionar, Enter para fijar un punto"
+          onKeyDown={onKeyDown}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            drag.current = {
+              x: e.clientX,
+              end,
+              width: e.currentTarget.getBoundingClientRect().width,
+              moved: false,
+            };
+          }}
+          onPointerMove={(e) => {
+            panTo(e.clientX);
+            setHoverT(
+              drag.current?.moved
+                ? null
+                : tFromClient(e.clientX, e.currentTarget),
+            );
+          }}
+          onPointerUp={(e) => {
+            // Clic sin arrastre = fijar el punto
+            if (drag.current && !drag.current.moved) {
+              setPinnedT(tFromClient(e.clientX, e.currentTarget));
+            }
+            drag.current = null;
+          }}
+          onPointerCancel={() => (drag.current = null)}
+          onPointerLeave={() => setHoverT(null)}
+        >
+          {/* 1) Grid suave + ticks de tiempo */}
+          {Array.from({ length: 5 }).map((_, i) => (
+            <line
+              key={`grid-${i}`}
+              x1={PAD_L}
+              x2={W - PAD_R}
+              y1={g.plotTop + (i / 4) * g.plotH}
+              y2={g.plotTop + (i / 4) * g.plotH}
+              stroke="#e2e8f0"
+            />
+          ))}
+          {ticks.map((t) => (
+            <g key={`tick-${t}`}>
+              <line
+                x1={x(t)}
+                x2={x(t)}
+                y1={g.plotTop}
+                y2={g.desBandY + BAND_H}
+                stroke="#e2e8f0"
+              />
+              <text
+                x={x(t)}
+                y={g.h - 4}
+                fontSize={11}
+                fill="#64748b"
+                textAnchor="middle"
+              >
+                {formatMin(t)}
+              </text>
+            </g>
+          ))}
+
+          {/* Eje Y (DA/GABA) */}
+          {[0, 0.5, 1].map((f) => (
+            <text
+              key={`y-${f}`}
+              x={PAD_L - 4}
+              y={g.plotTop + (1 - f) * g.plotH + 4}
+              fontSize={10}
+              fill="#64748b"
+              textAnchor="end"
+              className="tabular-nums"
+            >
+              {(yDomain.min + f * (yDomain.max - yDomain.min)).toFixed(2)}
+            </text>
+          ))}
+
+          {/* 2) Bandas (abajo): Nicotina y Desens (detrás de todo) */}
+          {shown.has("bandNic") &&
+            pts.band.map((b, i) => (
+              <rect
+                key={`nic-${i}`}
+                x={b.x}
+                y={g.nicBandY}
+                width={b.w + 1}
+                height={BAND_H}
+                fill="#94a3b8"
+                opacity={0.1 + 0.7 * b.vNic}
+                rx={2}
+              />
+            ))}
+          {shown.has("bandDes") &&
+            pts.band.map((b, i) => (
+              <rect
+                key={`des-${i}`}
+                x={b.x}
+                y={g.desBandY}
+                width={b.w + 1}
+                height={BAND_H}
+                fill="#7c3aed"
+                opacity={0.1 + 0.75 * b.vDes}
+                rx={2}
+              />
+            ))}
+
+          {/* 3) Líneas (encima de bandas) */}
+          {pts.lines.map(({ s, points }) => (
+            <polyline
+              key={s.id}
+              points={points}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={s.width}
+              strokeDasharray={s.dash}
+              opacity={s.opacity ?? 0.9}
+            />
+          ))}
+
+          {/* 4) Puff ticks (encima de líneas) */}
+          {visible
+            .filter((p) => p.puff && p.t >= start && p.t <= end)
+            .map((p, i) => (
+              <line
+                key={`puff-${i}-${p.t}`}
+                x1={x(p.t)}
+                x2={x(p.t)}
+                // solo dentro del “plot”, no hasta abajo (evita tapar bandas/labels)
+                y1={g.plotTop}
+                y2={g.plotTop + g.plotH}
+                stroke="#f97316"
+                strokeWidth={2}
+                opacity={0.55}
+              />
+            ))}
+
+          {/* 4b) Eventos de la pauta (triángulos sobre el plot) */}
+          {eventsBetween(schedule, start, end).map((e, i) => (
+            <path
+              key={`sched-${i}-${e.t}`}
+              d={`M${x(e.t) - 4},${g.plotTop - 7} L${x(e.t) + 4},${g.plotTop - 7} L${x(e.t)},${g.plotTop - 1} Z`}
+              fill="#2563eb"
+              opacity={0.75}
+            />
+          ))}
+
+          {/* 4c) Eventos detectados y notas */}
+          {markers.map(({ e, x: mx, showLabel }, i) => (
+            <g key={`ev-${i}-${e.t}`} pointerEvents="none">
+              <line
+                x1={mx}
+                x2={mx}
+                y1={g.plotTop}
+                y2={g.plotTop + g.plotH}
+                stroke={EVENT_COLORS[e.kind]}
+                strokeWidth={1}
+                strokeDasharray="2 2"
+                opacity={0.7}
+              />
+              {showLabel && (
+                <text
+                  x={mx + 2}
+                  y={g.plotTop + 9}
+                  fontSize={9}
+                  fill={EVENT_COLORS[e.kind]}
+                  stroke="#f8fafc"
+                  strokeWidth={3}
+                  paintOrder="stroke"
+                >
+                  {e.short}
+                </text>
+              )}
+            </g>
+          ))}
+
+          {/* 5) Leyenda mini (arriba): solo las series visibles */}
+          <g>
+            {legend.items.map(({ s, x: lx, y: ly }) => (
+              <g key={s.id}>
+                {s.width !== undefined ? (
+                  <line
+                    x1={lx}
+                    y1={ly + 6}
+                    x2={lx + 24}
+                    y2={ly + 6}
+                    stroke={s.color}
+                    strokeWidth={Math.min(s.width, 3)}
+                    strokeDasharray={s.dash}
+                  />
+                ) : (
+                  <rect
+                    x={lx + 4}
+                    y={ly + 2}
+                    width={16}
+                    height={8}
+                    fill={s.color}
+                    opacity={0.55}
+                    rx={2}
+                  />
+                )}
+                <text x={lx + 30} y={ly + 10} fontSize={11} fill="#334155">
+                  {seriesLabel(s, pkMode)}
+                </text>
+              </g>
+            ))}
+          </g>
+
+          {/* 5b) Instante rebobinado */}
+          {scrubT != null && scrubT >= start && scrubT <= end && (
+            <line
+              x1={x(scrubT)}
+              x2={x(scrubT)}
+              y1={g.plotTop}
+              y2={g.desBandY + BAND_H}
+              stroke="#d97706"
+              strokeWidth={2}
+              pointerEvents="none"
+            />
+          )}
+
+          {/* 6) Punto fijado + cruz del inspector */}
+          {[
+            { p: pinnedPt, color: "#2563eb", dash: "4 3" },
+            { p: hoverPt, color: "#334155", dash: undefined },
+          ].map(
+            ({ p, color, dash }, i) =>
+              inView(p) && (
+                <g key={`cursor-${i}`} pointerEvents="none">
+                  <line
+                    x1={x(p.t)}
+                    x2={x(p.t)}
+                    y1={g.plotTop}
+                    y2={g.desBandY + BAND_H}
+                    stroke={color}
+                    strokeWidth={1}
+                    strokeDasharray={dash}
+                  />
+                  {lines.map((s) => (
+                    <circle
+                      key={s.id}
+                      cx={x(p.t)}
+                      cy={yIn(g, s.fixed ? FIXED : yDomain, s.get(p))}
+                      r={3}
+                      fill={s.color}
+                    />
+                  ))}
+                </g>
+              ),
+          )}
+        </svg>
+
+        {inView(hoverPt) && (
+          <div
+            className="absolute top-2 pointer-events-none rounded-lg border border-slate-200 bg-white/95 shadow-sm px-2 py-1 text-[11px] text-slate-700 tabular-nums"
+            style={
+              x(hoverPt.t) < W / 2
+                ? { left: `${(x(hoverPt.t) / W) * 100 + 1}%` }
+                : { right: `${100 - (x(hoverPt.t) / W) * 100 + 1}%` }
+            }
+          >
+            <div className="font-semibold">
+              t = {hoverPt.t.toFixed(1)} min
+              {pinnedPt && (
+                <span className="font-normal text-blue-700">
+                  {" "}
+                  (Δt {signed(hoverPt.t - pinnedPt.t, 1)})
+                </span>
+              )}
+            </div>
+            {readout.map((r) => (
+              <div key={r.label} className="flex gap-2 justify-between">
+                <span style={{ color: r.color }}>{r.label}</span>
+                <span>
+                  {r.get(hoverPt).toFixed(3)}
+                  {pinnedPt && (
+                    <span className="text-blue-700">
+                      {" "}
+                      {signed(r.get(hoverPt) - r.get(pinnedPt))}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {children}
+
+      {pinnedPt && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-slate-700 tabular-nums">
+          <span className="font-medium text-blue-700">
+            Fijado t = {pinnedPt.t.toFixed(1)} min
+          </span>
+          {readout.map((r) => (
+            <span key={r.label}>
+              {r.label} {r.get(pinnedPt).toFixed(3)}
+            </span>
+          ))}
+          <button className={btn} onClick={() => setPinnedT(null)}>
+            Soltar
+          </button>
+        </div>
+      )}
+
+      {showPools && (
+        <PoolChart
+          points={drawn}
+          start={start}
+          span={span}
+          cursorT={inView(hoverPt) ? hoverPt.t : null}
+        />
+      )}
+
+      {/* Minimapa: historial completo + ventana visible */}
+      <svg
+        viewBox={`0 0 ${W} ${MINI_H}`}
+        className="w-full h-auto mt-1 cursor-pointer"
+        style={{ touchAction: "pan-y" }}
+        aria-label="Minimapa del historial"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          centerFromMini(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.buttons === 1) centerFromMini(e);
+        }}
+      >
+        <rect
+          x={PAD_L}
+          y={0}
+          width={PLOT_W}
+          height={MINI_H}
+          rx={6}
+          fill="#f8fafc"
+          stroke="#e2e8f0"
+        />
+        <polyline
+          points={mini.da}
+          fill="none"
+          stroke="#111827"
+          strokeWidth={1}
+          opacity={0.6}
+        />
+        <rect
+          x={mini.x(start)}
+          y={1}
+          width={Math.max(2, mini.x(end) - mini.x(start))}
+          height={MINI_H - 2}
+          rx={4}
+          fill="#2563eb"
+          fillOpacity={0.12}
+          stroke="#2563eb"
+          strokeOpacity={0.6}
+        />
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-slate-600">
+        <span>Ventana</span>
+        {SPAN_PRESETS.map((p) => (
+          <button
+            key={p.min}
+            className={span === p.min ? btnOn : btn}
+            onClick={() => {
+              setSpan(p.min);
+              setEndMin(null);
+            }}
+          >
+            {p.label}
+          </button>
+        ))}
+        <button
+          className={btn}
+          disabled={endMin == null}
+          onClick={() => setEndMin(null)}
+          title="Volver a seguir la simulación"
+        >
+          Ahora ⇥
+        </button>
+        <span className="ml-2">Eje Y</span>
+        {(["auto", "fijo"] as const).map((m) => (
+          <button
+            key={m}
+            className={yMode === m ? btnOn : btn}
+            onClick={() => setYMode(m)}
+          >
+            {m === "auto" ? "Auto" : "Fijo 0–1"}
+          </button>
+        ))}
+        <label className="ml-2 flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={showPools}
+            onChange={(e) => setShowPools(e.target.checked)}
+          />
+          Pools apilados
+        </label>
+        <span className="ml-auto text-slate-500">
+          Rueda = zoom · arrastrar = desplazar · clic = fijar punto
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs text-slate-600">
+        <span className="mr-1">Series</span>
+        {available.map((s) => (
+          <button
+            key={s.id}
+            className={`flex items-center gap-1 ${shown.has(s.id) ? btnOn : btn}`}
+            aria-pressed={shown.has(s.id)}
+            onClick={() => toggle(s.id)}
+          >
+            <span
+              className="inline-block w-3 h-1 rounded-sm"
+              style={{ background: s.color }}
+            />
+            {seriesLabel(s, pkMode)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
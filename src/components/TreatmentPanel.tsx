@@ -0,0 +1,116 @@
+import { useMemo, useState } from "react";
+import { clamp01, type ModelParams } from "../engine/model";
+import { TREATMENTS, puffUnderTreatment } from "../engine/treatment";
+
+const btn = "px-2 py-1 rounded-lg border border-slate-200 bg-slate-50 text-xs";
+
+const W = 760;
+const H = 160;
+const PAD = 28;
+
+const COLORS = ["#111827", "#d97706", "#0d9488", "#9333ea"];
+
+/**
+ * Un puff tras 24 h de cada tratamiento (sin fumar): DA antes del puff,
+ * pico y cuánto añade el puff. El agonista parcial ocupa α4β2 y recorta
+ * la recompensa; el antagonista la suprime.
+ */
+export default function TreatmentPanel({ params }: { params: ModelParams }) {
+  const [open, setOpen] = useState(false);
+
+  const results = useMemo(
+    () => (open ? TREATMENTS.map((t) => puffUnderTreatment(t, params)) : []),
+    [open, params],
+  );
+
+  const paths = useMemo(() => {
+    const values = results.flatMap((r) => r.trace.map((p) => p.da));
+    if (values.length === 0) return [];
+    const min = Math.max(0, Math.min(...values) - 0.05);
+    const max = Math.min(1, Math.max(...values) + 0.05);
+    const tMax = results[0].trace.at(-1)?.t ?? 1;
+    const x = (t: number) => PAD + (t / tMax) * (W - PAD * 2);
+    const y = (v: number) =>
+      PAD + (1 - clamp01((v - min) / (max - min || 1))) * (H - PAD * 2);
+    return results.map((r) =>
+      r.trace.map((p) => `${x(p.t)},${y(p.da)}`).join(" "),
+    );
+  }, [results]);
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-medium text-slate-700">
+          Tratamientos: respuesta DA a un puff
+        </div>
+        <button className={btn} onClick={() => setOpen(!open)}>
+          {open ? "Ocultar" : "Comparar tratamientos"}
+        </button>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Simula 24 h de cada tratamiento sin fumar (pauta por defecto) y luego
+          un puff de cigarrillo, con los parámetros actuales. Compara la DA de
+          partida con lo que añade el puff.
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${W} ${H}`}
+            className="w-full h-auto rounded-xl bg-slate-50 border border-slate-200"
+            aria-label="Respuesta DA a un puff según tratamiento"
+          >
+            {paths.map((points, i) => (
+              <polyline
+                key={results[i].treatment.id}
+                points={points}
+                fill="none"
+                stroke={COLORS[i % COLORS.length]}
+                strokeWidth={2}
+              />
+            ))}
+          </svg>
+          <div className="text-[11px] text-slate-500 mt-1">
+            DA en los 60 min tras el puff (t = 0)
+          </div>
+
+          <table className="w-full mt-2 text-xs text-slate-700 tabular-nums">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="font-medium py-1">Tratamiento</th>
+                <th className="font-medium text-right">DA antes</th>
+                <th className="font-medium text-right">Pico DA</th>
+                <th className="font-medium text-right">Δ por el puff</th>
+                <th className="font-medium text-right">AUC DA (·min)</th>
+                <th className="font-medium text-right">Craving antes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r, i) => (
+                <tr key={r.treatment.id} className="border-t border-slate-100">
+                  <td className="py-1">
+                    <span
+                      className="inline-block w-3 h-0.5 mr-1 align-middle"
+                      style={{ background: COLORS[i % COLORS.length] }}
+                    />
+                    {r.treatment.label}
+                  </td>
+                  <td className="text-right">{r.daBefore.toFixed(3)}</td>
+                  <td className="text-right">{r.summary.peakDA.toFixed(3)}</td>
+                  <td className="text-right">
+                    {(r.summary.peakDA - r.daBefore).toFixed(3)}
+                  </td>
+                  <td className="text-right">{r.summary.aucDA.toFixed(1)}</td>
+                  <td className="text-right">
+                    {Math.round(r.cravingBefore * 100)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import type { SimEventKind } from "../engine/events";
+
+// Color por tipo de evento (registro y marcadores del timeline)
+export const EVENT_COLORS: Record<SimEventKind, string> = {
+  alpha7: "#0284c7",
+  desens: "#b91c1c",
+  recover: "#16a34a",
+  daPeak: "#111827",
+  param: "#ca8a04",
+  note: "#2563eb",
+};
@@ -0,0 +1,32 @@
+// Eje de tiempo compartido por el timeline y sus gráficas auxiliares
+// (mismo ancho y márgenes → los instantes quedan alineados en vertical)
+
+export const W = 760;
+export const PAD_L = 34;
+export const PAD_R = 10;
+export const PLOT_W = W - PAD_L - PAD_R;
+
+// Paso de ticks “redondo” para ≤ 8 marcas
+const TICK_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 180, 360];
+
+export function timeTicks(start: number, end: number): number[] {
+  const span = end - start;
+  const step = TICK_STEPS.find((s) => span / s <= 8) ?? 720;
+  const out: number[] = [];
+  for (let t = Math.ceil(start / step) * step; t <= end; t += step) {
+    out.push(t);
+  }
+  return out;
+}
+
+export function formatMin(t: number): string {
+  const m = Math.round(t);
+  if (m < 60) return `${m} min`;
+  const h = Math.floor(m / 60);
+  const r = m - h * 60;
+  return r ? `${h} h ${String(r).padStart(2, "0")}` : `${h} h`;
+}
+
+/** x (viewBox) de `t` dentro de la ventana [start, start + span]. */
+export const xAt = (t: number, start: number, span: number) =>
+  PAD_L + ((t - start) / span) * PLOT_W;
@@ -0,0 +1,123 @@
+/**
+ * Exposición crónica (días): un protocolo de N días fumando y M días de
+ * abstinencia, con la densidad de α4β2 subiendo y bajando (ver upregulation).
+ * Compara después la respuesta a un mismo puff en cerebro naive y crónico.
+ */
+import { summarizeTrace, type TraceSummary } from "./compare";
+import {
+  INITIAL_STATE,
+  step,
+  type ModelParams,
+  type ReceptorDensity,
+  type SimState,
+  type TracePoint,
+} from "./model";
+import { DEFAULT_DELIVERY } from "./routes";
+import {
+  MIN_PER_DAY,
+  doseBetween,
+  wakingSchedule,
+  type WakingDay,
+} from "./schedule";
+import { simulate } from "./simulate";
+
+export type ChronicProtocol = WakingDay & {
+  smokingDays: number;
+  abstinenceDays: number;
+};
+
+export const DEFAULT_PROTOCOL: ChronicProtocol = {
+  smokingDays: 14,
+  cigsPerDay: 20,
+  abstinenceDays: 14,
+  wakeMin: 7 * 60,
+  sleepMin: 23 * 60,
+};
+
+export type DensitySample = {
+  day: number; // t en días
+  density: ReceptorDensity;
+  desensDA: number;
+};
+
+export type ChronicResult = {
+  samples: DensitySample[];
+  endSmoking: SimState; // estado al acabar el último día de fumar
+  final: SimState; // tras la abstinencia
+};
+
+/**
+ * Corre el protocolo completo con el modo crónico forzado. Solo guarda una
+ * muestra cada `sampleMin` (semanas de pasos no caben en un trace).
+ */
+export function runChronic(
+  protocol: ChronicProtocol,
+  params: ModelParams,
+  dtMin = 0.5,
+  sampleMin = 60,
+): ChronicResult {
+  const p: ModelParams = { ...params, chronicMode: true };
+  const events = wakingSchedule(
+    protocol,
+    protocol.smokingDays,
+    params.puffDose,
+  );
+  const smokingEnd = protocol.smokingDays * MIN_PER_DAY;
+  const total = smokingEnd + protocol.abstinenceDays * MIN_PER_DAY;
+  const steps = Math.round(total / dtMin);
+  const every = Math.max(1, Math.round(sampleMin / dtMin));
+
+  const sample = (s: SimState): DensitySample => ({
+    day: s.t / MIN_PER_DAY,
+    density: s.density,
+    desensDA: s.poolDA.desens,
+  });
+  const samples = [sample(INITIAL_STATE)];
+  let s = INITIAL_STATE;
+  let endSmoking = s;
+  for (let i = 1; i <= steps; i++) {
+    const dose = doseBetween(events, s.t, s.t + dtMin);
+    s = step(s, { dtMin, dose, delivery: DEFAULT_DELIVERY }, p);
+    if (i % every === 0) samples.push(sample(s));
+    if (s.t <= smokingEnd + 1e-9) endSmoking = s;
+  }
+  return { samples, endSmoking, final: s };
+}
+
+export type PuffResponse = {
+  label: string;
+  density: ReceptorDensity;
+  trace: TracePoint[];
+  summary: TraceSummary;
+  addedDA: number; // máx. de DA con puff − DA sin él (la respuesta al puff)
+};
+
+/**
+ * Un puff desde el estado dado (t reiniciado a 0): el fumador conserva la
+ * nicotina y la desensibilización del día además de la densidad, así la
+ * tolerancia aguda compite con la upregulation.
+ */
+export function puffTest(
+  label: string,
+  from: SimState,
+  params: ModelParams,
+  durationMin = 60,
+  dtMin = 0.5,
+): PuffResponse {
+  const start = { ...from, t: 0 };
+  const { trace } = simulate(
+    [{ t: 0, dose: params.puffDose }],
+    params,
+    durationMin,
+    dtMin,
+    start,
+  );
+  const without = simulate([], params, durationMin, dtMin, start).trace;
+  return {
+    label,
+    density: from.density,
+    trace,
+    summary: summarizeTrace(trace),
+    addedDA: Math.max(0, ...trace.map((p, i) => p.da - without[i].da)),
+  };
+}
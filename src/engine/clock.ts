@@ -0,0 +1,28 @@
+/**
+ * Reloj de paso fijo: el tiempo real de cada frame se acumula y se consume en
+ * pasos de `FIXED_DT_MIN`, así el resultado no depende de los Hz del proyector.
+ */
+
+/** Paso fijo de integración (min de simulación) ≈ 3 s simulados. */
+export const FIXED_DT_MIN = 0.05;
+
+/** Tope del delta real de un frame: al volver de una pestaña oculta no se “salta”. */
+export const MAX_FRAME_MS = 250;
+
+/** Tope de sub-pasos por frame (si se supera se descarta el retraso). */
+export const MAX_STEPS_PER_FRAME = 400;
+
+export type ClockPlan = { steps: number; accMin: number };
+
+/** Suma `frameMin` al acumulador y devuelve cuántos pasos fijos tocan. */
+export function planSteps(
+  accMin: number,
+  frameMin: number,
+  dtMin = FIXED_DT_MIN,
+  maxSteps = MAX_STEPS_PER_FRAME,
+): ClockPlan {
+  const acc = accMin + Math.max(0, frameMin);
+  const steps = Math.floor(acc / dtMin);
+  if (steps > maxSteps) return { steps: maxSteps, accMin: 0 };
+  return { steps, accMin: acc - steps * dtMin };
+}
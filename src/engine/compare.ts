@@ -0,0 +1,95 @@
+/**
+ * Comparación A/B: varios juegos de parámetros sobre la misma pauta,
+ * la misma semilla y el mismo estado inicial, con un resumen por escenario.
+ */
+import {
+  routeDose,
+  type ModelParams,
+  type SimState,
+  type TracePoint,
+} from "./model";
+import type { Delivery } from "./routes";
+import { normalizeSchedule, type DosingSchedule } from "./schedule";
+import { poissonSchedule, simulate } from "./simulate";
+
+export type Scenario = {
+  id: number;
+  label: string;
+  params: ModelParams;
+  puffsPerMin: number;
+};
+
+/** Lo que comparten todos los escenarios de una comparación. */
+export type CompareRun = {
+  schedule: DosingSchedule;
+  seed: number;
+  durationMin: number;
+  dtMin: number;
+  initial: SimState;
+  delivery: Delivery;
+};
+
+export type TraceSummary = {
+  peakDA: number;
+  timeToPeakMin: number; // desde el inicio de la corrida
+  aucDA: number; // ∫ DA dt (fracción·min), trapecios
+  minGABA: number;
+};
+
+export type ScenarioResult = {
+  scenario: Scenario;
+  trace: TracePoint[];
+  summary: TraceSummary;
+};
+
+export function summarizeTrace(
+  trace: readonly TracePoint[],
+  t0 = 0,
+): TraceSummary {
+  let peak = trace[0];
+  let aucDA = 0;
+  let minGABA = Infinity;
+  trace.forEach((p, i) => {
+    if (p.da > peak.da) peak = p;
+    if (p.gaba < minGABA) minGABA = p.gaba;
+    if (i > 0) {
+      const prev = trace[i - 1];
+      aucDA += 0.5 * (p.da + prev.da) * (p.t - prev.t);
+    }
+  });
+  return {
+    peakDA: peak?.da ?? 0,
+    timeToPeakMin: peak ? peak.t - t0 : 0,
+    aucDA,
+    minGABA: Number.isFinite(minGABA) ? minGABA : 0,
+  };
+}
+
+/**
+ * Corre un escenario: la pauta común más los puffs aleatorios de la semilla
+ * (misma semilla → mismos instantes si coincide la frecuencia).
+ */
+export function runScenario(
+  scenario: Scenario,
+  run: CompareRun,
+): ScenarioResult {
+  const { params, puffsPerMin } = scenario;
+  const t0 = run.initial.t;
+  const random = poissonSchedule(
+    run.seed,
+    puffsPerMin,
+    run.durationMin,
+    run.dtMin,
+    t0,
+    routeDose(run.delivery.route, params),
+  );
+  const { trace } = simulate(
+    normalizeSchedule([...run.schedule, ...random]),
+    params,
+    run.durationMin,
+    run.dtMin,
+    run.initial,
+    run.delivery,
+  );
+  return { scenario, trace, summary: summarizeTrace(trace, t0) };
+}
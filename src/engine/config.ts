@@ -0,0 +1,331 @@
+/**
+ * Configuración completa de una sesión (escenario) para compartir:
+ * JSON versionado (archivo) y hash compacto en la URL.
+ */
+import {
+  DEFAULT_REGIMEN,
+  DRUG_IDS,
+  type DrugId,
+  type DrugRegimen,
+} from "./drugs";
+import {
+  DEFAULT_PARAMS,
+  normalizePool,
+  type Integrator,
+  type ModelParams,
+  type ReceptorPool,
+} from "./model";
+import { PARAM_SPECS, validateParam } from "./paramSpec";
+import {
+  PRESETS,
+  isBuiltinPreset,
+  type InitialState,
+  type Preset,
+} from "./presets";
+import { DOSE_ROUTES, ROUTES, type DoseRoute } from "./routes";
+import { validateEvents, type DoseEvent } from "./schedule";
+
+export const CONFIG_VERSION = 1;
+
+/** Prefijo del hash: `#cfg=<base64url(JSON)>`. */
+const HASH_KEY = "cfg";
+
+export type SessionConfig = {
+  version: number;
+  preset: Preset;
+  params: ModelParams;
+  puffsPerMin: number;
+  seed: number;
+  initial: InitialState;
+  schedule: DoseEvent[];
+  route: DoseRoute;
+  patchOn: boolean;
+  patchDose: number;
+  autoPuff: boolean; // el craving dispara puffs (autoadministración)
+  drugs: DrugRegimen;
+};
+
+export const DEFAULT_CONFIG: SessionConfig = {
+  version: CONFIG_VERSION,
+  preset: "puff",
+  params: DEFAULT_PARAMS,
+  puffsPerMin: PRESETS.puff.puffsPerMin,
+  seed: 1234,
+  initial: PRESETS.puff.initial,
+  schedule: [],
+  route: "cigarette",
+  patchOn: false,
+  patchDose: ROUTES.patch.defaultDose,
+  autoPuff: false,
+  drugs: DEFAULT_REGIMEN,
+};
+
+const INTEGRATORS: Integrator[] = ["euler", "rk4"];
+
+// ---------- Validación ----------
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/**
+ * Valida un objeto (ya parseado) y completa lo que falte con DEFAULT_CONFIG.
+ * Lanza Error con todos los problemas encontrados, uno por línea.
+ */
+export function validateConfig(data: unknown): SessionConfig {
+  if (!isObject(data)) {
+    throw new Error("La configuración debe ser un objeto JSON.");
+  }
+
+  const errors: string[] = [];
+  const cfg: SessionConfig = {
+    ...DEFAULT_CONFIG,
+    params: { ...DEFAULT_PARAMS },
+  };
+
+  const num = (
+    field: string,
+    v: unknown,
+    min: number,
+    max: number,
+  ): number | undefined => {
+    if (v === undefined) return undefined;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < min || v > max) {
+      errors.push(`“${field}” debe ser un número entre ${min} y ${max}.`);
+      return undefined;
+    }
+    return v;
+  };
+
+  const pool = (field: string, v: unknown): ReceptorPool | undefined => {
+    if (v === undefined) return undefined;
+    const p = isObject(v) ? v : {};
+    const parts = [p.basal, p.activado, p.desens];
+    if (
+      !isObject(v) ||
+      parts.some((x) => typeof x !== "number" || !(x >= 0)) ||
+      (parts as number[]).every((x) => x === 0)
+    ) {
+      errors.push(
+        `“${field}” debe tener basal/activado/desens ≥ 0 (no todos 0).`,
+      );
+      return undefined;
+    }
+    return normalizePool(p as ReceptorPool);
+  };
+
+  if (data.version !== undefined && data.version !== CONFIG_VERSION) {
+    errors.push(
+      `Versión ${String(data.version)} no soportada (se espera ${CONFIG_VERSION}).`,
+    );
+  }
+
+  // Un preset del docente puede no existir en esta biblioteca: el escenario
+  // completo viaja igualmente en initial/puffsPerMin/params/schedule
+  if (data.preset !== undefined) {
+    if (typeof data.preset !== "string" || data.preset === "") {
+      errors.push("“preset” debe ser un texto.");
+    } else {
+      cfg.preset = data.preset;
+      if (isBuiltinPreset(data.preset)) {
+        cfg.initial = PRESETS[data.preset].initial;
+        cfg.puffsPerMin = PRESETS[data.preset].puffsPerMin;
+      }
+    }
+  }
+
+  if (data.params !== undefined) {
+    if (!isObject(data.params)) {
+      errors.push("“params” debe ser un objeto.");
+    } else {
+      const raw = data.params;
+      for (const key of Object.keys(raw)) {
+        const spec = PARAM_SPECS.find((s) => s.key === key);
+        if (spec) {
+          const v = raw[key];
+          const err =
+            typeof v === "number"
+              ? validateParam(spec, v)
+              : "Debe ser un número.";
+          if (err) errors.push(`params.${key}: ${err}`);
+          else cfg.params[spec.key] = v as number;
+        } else if (key === "integrator") {
+          if (INTEGRATORS.includes(raw.integrator as Integrator)) {
+            cfg.params.integrator = raw.integrator as Integrator;
+          } else {
+            errors.push("params.integrator: debe ser “euler” o “rk4”.");
+          }
+        } else if (key === "pkMode") {
+          if (typeof raw.pkMode === "boolean") cfg.params.pkMode = raw.pkMode;
+          else errors.push("params.pkMode: debe ser true/false.");
+        } else if (key === "chronicMode") {
+          if (typeof raw.chronicMode === "boolean") {
+            cfg.params.chronicMode = raw.chronicMode;
+          } else {
+            errors.push("params.chronicMode: debe ser true/false.");
+          }
+        } else {
+          errors.push(`params.${key}: parámetro desconocido.`);
+        }
+      }
+    }
+  }
+
+  cfg.puffsPerMin =
+    num("puffsPerMin", data.puffsPerMin, 0, 10) ?? cfg.puffsPerMin;
+
+  const seed = num("seed", data.seed, 0, 0xffffffff);
+  if (seed !== undefined) {
+    if (Number.isInteger(seed)) cfg.seed = seed;
+    else errors.push("“seed” debe ser un entero.");
+  }
+
+  if (data.initial !== undefined) {
+    if (!isObject(data.initial)) {
+      errors.push("“initial” debe ser un objeto.");
+    } else {
+      const i = data.initial;
+      cfg.initial = {
+        nicotine:
+          num("initial.nicotine", i.nicotine, 0, 1) ?? cfg.initial.nicotine,
+        poolDA: pool("initial.poolDA", i.poolDA) ?? cfg.initial.poolDA,
+        poolGABA: pool("initial.poolGABA", i.poolGABA) ?? cfg.initial.poolGABA,
+      };
+    }
+  }
+
+  if (data.schedule !== undefined) {
+    try {
+      cfg.schedule = validateEvents(data.schedule);
+    } catch (e) {
+      errors.push(`schedule: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  if (data.route !== undefined) {
+    if (DOSE_ROUTES.includes(data.route as DoseRoute)) {
+      cfg.route = data.route as DoseRoute;
+    } else {
+      errors.push(`Vía desconocida: “${String(data.route)}”.`);
+    }
+  }
+
+  if (data.patchOn !== undefined) {
+    if (typeof data.patchOn === "boolean") cfg.patchOn = data.patchOn;
+    else errors.push("“patchOn” debe ser true/false.");
+  }
+  cfg.patchDose = num("patchDose", data.patchDose, 0, 1) ?? cfg.patchDose;
+
+  if (data.autoPuff !== undefined) {
+    if (typeof data.autoPuff === "boolean") cfg.autoPuff = data.autoPuff;
+    else errors.push("“autoPuff” debe ser true/false.");
+  }
+
+  if (data.drugs !== undefined) {
+    if (!isObject(data.drugs)) {
+      errors.push("“drugs” debe ser un objeto.");
+    } else {
+      for (const [key, raw] of Object.entries(data.drugs)) {
+        if (!DRUG_IDS.includes(key as DrugId)) {
+          errors.push(`drugs.${key}: fármaco desconocido.`);
+          continue;
+        }
+        if (!isObject(raw)) {
+          errors.push(`“drugs.${key}” debe ser un objeto.`);
+          continue;
+        }
+        const d = { ...cfg.drugs[key as DrugId] };
+        if (raw.on !== undefined) {
+          if (typeof raw.on === "boolean") d.on = raw.on;
+          else errors.push(`“drugs.${key}.on” debe ser true/false.`);
+        }
+        d.dose = num(`drugs.${key}.dose`, raw.dose, 0, 1) ?? d.dose;
+        d.everyH = num(`drugs.${key}.everyH`, raw.everyH, 1, 48) ?? d.everyH;
+        d.startMin =
+          num(`drugs.${key}.startMin`, raw.startMin, 0, 1e7) ?? d.startMin;
+        cfg.drugs = { ...cfg.drugs, [key]: d };
+      }
+    }
+  }
+
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  return cfg;
+}
+
+// ---------- Archivo JSON ----------
+
+export function serializeConfig(cfg: SessionConfig): string {
+  return JSON.stringify({ ...cfg, version: CONFIG_VERSION }, null, 2);
+}
+
+export function parseConfig(text: string): SessionConfig {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("La configuración no es JSON válido.");
+  }
+  return validateConfig(data);
+}
+
+// ---------- Hash de URL ----------
+
+function toBase64Url(text: string): string {
+  let bin = "";
+  for (const b of new TextEncoder().encode(text)) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): string {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "===".slice((b64.length + 3) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+// Solo lo que difiere de DEFAULT_CONFIG (y del preset elegido)
+function compact(cfg: SessionConfig): Raw {
+  const out: Raw = { version: CONFIG_VERSION, preset: cfg.preset };
+  const preset = isBuiltinPreset(cfg.preset) ? PRESETS[cfg.preset] : null;
+
+  const params: Raw = {};
+  for (const key of Object.keys(cfg.params) as (keyof ModelParams)[]) {
+    if (cfg.params[key] !== DEFAULT_PARAMS[key]) params[key] = cfg.params[key];
+  }
+  if (Object.keys(params).length > 0) out.params = params;
+
+  if (cfg.puffsPerMin !== preset?.puffsPerMin) {
+    out.puffsPerMin = cfg.puffsPerMin;
+  }
+  if (cfg.seed !== DEFAULT_CONFIG.seed) out.seed = cfg.seed;
+  if (JSON.stringify(cfg.initial) !== JSON.stringify(preset?.initial)) {
+    out.initial = cfg.initial;
+  }
+  if (cfg.schedule.length > 0) out.schedule = cfg.schedule;
+  if (cfg.route !== DEFAULT_CONFIG.route) out.route = cfg.route;
+  if (cfg.patchOn) out.patchOn = true;
+  if (cfg.patchDose !== DEFAULT_CONFIG.patchDose) out.patchDose = cfg.patchDose;
+  if (cfg.autoPuff) out.autoPuff = true;
+  if (JSON.stringify(cfg.drugs) !== JSON.stringify(DEFAULT_CONFIG.drugs)) {
+    out.drugs = cfg.drugs;
+  }
+  return out;
+}
+
+export function encodeConfigHash(cfg: SessionConfig): string {
+  return `#${HASH_KEY}=${toBase64Url(JSON.stringify(compact(cfg)))}`;
+}
+
+/** null si el hash no trae configuración; lanza Error si viene mal formada. */
+export function decodeConfigHash(hash: string): SessionConfig | null {
+  const m = new RegExp(`[#&]${HASH_KEY}=([^&]+)`).exec(hash);
+  if (!m) return null;
+
+  let text: string;
+  try {
+    text = fromBase64Url(m[1]);
+  } catch {
+    throw new Error("El enlace está dañado (no se pudo decodificar).");
+  }
+  return parseConfig(text);
+}
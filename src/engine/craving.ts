@@ -0,0 +1,51 @@
+/**
+ * Índice de craving / abstinencia (0–1), derivado del estado:
+ *  - receptores α4β2 (DA) que salieron de la desensibilización y siguen
+ *    libres: se acumulan al recuperarse y se vacían al llegar nicotina;
+ *  - DA por debajo de la basal;
+ *  - tiempo desde la última dosis (justo tras una dosis no hay craving).
+ * Conceptual, no clínico.
+ */
+import { receptorLevels } from "./drugs";
+import { clamp01 } from "./math";
+import type { ModelParams, SimState } from "./model";
+
+export type CravingState = Pick<
+  SimState,
+  "craving" | "recoveredDA" | "sinceDoseMin"
+>;
+
+// Con nicotina por encima del umbral los recuperados se ocupan en ~1 min
+const OCCUPY_MIN = 1;
+
+export function stepCraving(
+  prev: SimState,
+  next: Omit<SimState, keyof CravingState>,
+  dosed: boolean,
+  dtMin: number,
+  params: ModelParams,
+): CravingState {
+  const sinceDoseMin = dosed ? 0 : prev.sinceDoseMin + dtMin;
+
+  // Por encima del umbral de activación la nicotina (o un agonista) los ocupa
+  const occupied =
+    receptorLevels(next.nicotine, next.drugs).a4b2 > params.actThreshold;
+  const decay =
+    1 / Math.max(1, params.cravingReliefMin) + (occupied ? 1 / OCCUPY_MIN : 0);
+  const recovered = Math.max(0, prev.poolDA.desens - next.poolDA.desens);
+  const recoveredDA = Math.min(
+    next.poolDA.basal,
+    (prev.recoveredDA + recovered) * Math.exp(-decay * dtMin),
+  );
+
+  const baseline = Math.max(1e-6, params.cravingBaselineDA);
+  const deficit = clamp01((baseline - next.da) / baseline);
+  const onset =
+    1 - Math.exp(-sinceDoseMin / Math.max(0.1, params.cravingOnsetMin));
+  const craving = clamp01(
+    onset *
+      (params.cravingRecoveredW * recoveredDA * next.density.da +
+        params.cravingDeficitW * deficit),
+  );
+  return { craving, recoveredDA, sinceDoseMin };
+}
@@ -0,0 +1,142 @@
+/**
+ * Ciclo de 24 h: cigarrillos durante la vigilia, sueño sin nicotina y varios
+ * días seguidos. Los receptores se recuperan de noche, así que el primer
+ * cigarrillo de la mañana da la mayor subida de DA; los siguientes, con los
+ * receptores ya desensibilizados, suben mucho menos. Resumen por día.
+ */
+import {
+  INITIAL_STATE,
+  poolToState,
+  step,
+  toTracePoint,
+  type ModelParams,
+  type SimState,
+  type TracePoint,
+} from "./model";
+import { DEFAULT_DELIVERY, type Delivery } from "./routes";
+import {
+  MIN_PER_DAY,
+  doseBetween,
+  wakingSchedule,
+  type DoseEvent,
+  type WakingDay,
+} from "./schedule";
+
+export type DayCycle = WakingDay & { days: number };
+
+export const DEFAULT_DAY_CYCLE: DayCycle = {
+  days: 3,
+  cigsPerDay: 15,
+  wakeMin: 7 * 60,
+  sleepMin: 23 * 60,
+};
+
+export type DaySummary = {
+  day: number; // 1, 2, …
+  peakDA: number;
+  peakClockMin: number; // hora del pico (min desde medianoche)
+  wakeDesensDA: number; // fracción desensibilizada al despertar
+  desensMinDA: number; // minutos con α4β2 (DA) desensibilizado
+  desensMinGABA: number;
+  cigRiseDA: number[]; // subida de DA de cada cigarrillo (pico − justo antes)
+  firstCigRiseDA: number | null;
+  laterCigRiseDA: number | null; // media de los demás cigarrillos del día
+};
+
+// Calas separadas por más de esto son de otro cigarrillo
+const CIG_GAP_MIN = 5;
+
+export type DayCycleResult = {
+  schedule: DoseEvent[];
+  trace: TracePoint[]; // una muestra cada `sampleMin`
+  days: DaySummary[];
+  final: SimState;
+};
+
+/** Hora del día de un minuto de simulación (“07:30”). */
+export function clockLabel(t: number): string {
+  const m = Math.round(((t % MIN_PER_DAY) + MIN_PER_DAY) % MIN_PER_DAY);
+  const h = Math.floor(m / 60) % 24;
+  return `${String(h).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Corre `cycle.days` días desde medianoche. Los resúmenes usan todos los
+ * pasos; el trace se submuestrea para poder dibujar días enteros.
+ */
+export function runDayCycle(
+  cycle: DayCycle,
+  params: ModelParams,
+  initial: SimState = INITIAL_STATE,
+  delivery: Delivery = DEFAULT_DELIVERY,
+  dtMin = 0.5,
+  sampleMin = 5,
+): DayCycleResult {
+  const schedule = wakingSchedule(cycle, cycle.days, params.puffDose);
+  const steps = Math.round((cycle.days * MIN_PER_DAY) / dtMin);
+  const every = Math.max(1, Math.round(sampleMin / dtMin));
+
+  const trace: TracePoint[] = [toTracePoint({ ...initial, t: 0 }, false)];
+  const days: DaySummary[] = [];
+  let s: SimState = { ...initial, t: 0 };
+  let puffSinceSample = false;
+  let lastPuff = -Infinity;
+  let cig: { day: DaySummary; base: number; peak: number } | null = null;
+  const closeCig = () => {
+    if (cig) cig.day.cigRiseDA.push(Math.max(0, cig.peak - cig.base));
+  };
+  for (let i = 1; i <= steps; i++) {
+    const t0 = s.t;
+    const d = Math.floor(t0 / MIN_PER_DAY);
+    const clock = t0 - d * MIN_PER_DAY;
+    if (!days[d]) {
+      days[d] = {
+        day: d + 1,
+        peakDA: 0,
+        peakClockMin: 0,
+        wakeDesensDA: 0,
+        desensMinDA: 0,
+        desensMinGABA: 0,
+        cigRiseDA: [],
+        firstCigRiseDA: null,
+        laterCigRiseDA: null,
+      };
+    }
+    const day = days[d];
+    if (clock < cycle.wakeMin) day.wakeDesensDA = s.poolDA.desens;
+
+    const dose = doseBetween(schedule, t0, t0 + dtMin);
+    if (dose > 0) {
+      if (t0 - lastPuff > CIG_GAP_MIN) {
+        closeCig();
+        cig = { day, base: s.da, peak: s.da };
+      }
+      lastPuff = t0;
+    }
+    s = step(s, { dtMin, dose, delivery }, params);
+    puffSinceSample ||= dose > 0;
+
+    if (cig && s.da > cig.peak) cig.peak = s.da;
+    if (s.da > day.peakDA) {
+      day.peakDA = s.da;
+      day.peakClockMin = clock + dtMin;
+    }
+    if (poolToState(s.poolDA) === "desensibilizado") day.desensMinDA += dtMin;
+    if (poolToState(s.poolGABA) === "desensibilizado") {
+      day.desensMinGABA += dtMin;
+    }
+    if (i % every === 0) {
+      trace.push(toTracePoint(s, puffSinceSample));
+      puffSinceSample = false;
+    }
+  }
+  closeCig();
+  for (const day of days) {
+    const [first, ...later] = day.cigRiseDA;
+    day.firstCigRiseDA = first ?? null;
+    day.laterCigRiseDA = later.length
+      ? later.reduce((a, b) => a + b, 0) / later.length
+      : null;
+  }
+  return { schedule, trace, days, final: s };
+}
@@ -0,0 +1,194 @@
+/**
+ * Fármacos que compiten con la nicotina en α4β2 / α7 (conceptual):
+ * - vareniclina: agonista parcial de α4β2 (eficacia baja, afinidad alta)
+ *   y agonista de α7;
+ * - mecamilamina: antagonista no competitivo (bloquea el canal).
+ * La terapia sustitutiva (TSN) es nicotina: parche / chicle en routes.ts.
+ * Cada fármaco tiene su pauta (dosis cada N h) y se elimina con su t½;
+ * la absorción oral no se modela (la dosis entra como bolo).
+ */
+import { clamp01 } from "./math";
+
+export type DrugId = "varenicline" | "mecamylamine";
+
+export const DRUG_IDS: DrugId[] = ["varenicline", "mecamylamine"];
+
+export type DrugProfile = {
+  label: string;
+  kind: "partialAgonist" | "antagonist";
+  description: string;
+  affinity: number; // relativa a la nicotina (= 1)
+  a4b2Efficacy: number; // 1 = como la nicotina; 0 = no activa
+  a7Efficacy: number;
+  a7Block: number; // fracción del bloqueo que alcanza a α7
+  halfLifeMin: number;
+  defaultDose: number; // nivel (proxy 0–1) por toma
+  defaultEveryH: number;
+  color: string;
+};
+
+export const DRUGS: Record<DrugId, DrugProfile> = {
+  varenicline: {
+    label: "Vareniclina",
+    kind: "partialAgonist",
+    description:
+      "Agonista parcial: activa poco α4β2 pero lo ocupa y desplaza a la nicotina, así el puff añade menos DA.",
+    affinity: 4,
+    a4b2Efficacy: 0.4,
+    a7Efficacy: 1,
+    a7Block: 0,
+    halfLifeMin: 17 * 60,
+    defaultDose: 0.15,
+    defaultEveryH: 12,
+    color: "#0d9488",
+  },
+  mecamylamine: {
+    label: "Mecamilamina",
+    kind: "antagonist",
+    description:
+      "Antagonista no competitivo: bloquea el canal y el puff casi no activa α4β2.",
+    affinity: 3,
+    a4b2Efficacy: 0,
+    a7Efficacy: 0,
+    a7Block: 0.3,
+    halfLifeMin: 10 * 60,
+    defaultDose: 0.3,
+    defaultEveryH: 12,
+    color: "#9333ea",
+  },
+};
+
+export type DrugLevels = Record<DrugId, number>;
+
+export const NO_DRUGS: DrugLevels = { varenicline: 0, mecamylamine: 0 };
+
+/** Pauta de un fármaco: `dose` cada `everyH` horas desde `startMin`. */
+export type DrugDosing = {
+  on: boolean;
+  dose: number;
+  everyH: number;
+  startMin: number;
+};
+
+export type DrugRegimen = Record<DrugId, DrugDosing>;
+
+export const DEFAULT_REGIMEN: DrugRegimen = {
+  varenicline: {
+    on: false,
+    dose: DRUGS.varenicline.defaultDose,
+    everyH: DRUGS.varenicline.defaultEveryH,
+    startMin: 0,
+  },
+  mecamylamine: {
+    on: false,
+    dose: DRUGS.mecamylamine.defaultDose,
+    everyH: DRUGS.mecamylamine.defaultEveryH,
+    startMin: 0,
+  },
+};
+
+/** Dosis de la pauta que caen en [t0, t1). */
+export function regimenDoses(
+  regimen: DrugRegimen,
+  t0: number,
+  t1: number,
+): DrugLevels {
+  const out = { ...NO_DRUGS };
+  for (const id of DRUG_IDS) {
+    const d = regimen[id];
+    if (!d.on || d.dose <= 0 || d.everyH <= 0) continue;
+    const every = d.everyH * 60;
+    const k0 = Math.max(0, Math.ceil((t0 - d.startMin) / every - 1e-9));
+    for (let t = d.startMin + k0 * every; t < t1; t += every) {
+      if (t >= t0) out[id] += d.dose;
+    }
+  }
+  return out;
+}
+
+/** Suma las tomas del paso y aplica la eliminación de primer orden. */
+export function stepDrugs(
+  levels: DrugLevels,
+  doses: DrugLevels,
+  dtMin: number,
+): DrugLevels {
+  const out = { ...NO_DRUGS };
+  for (const id of DRUG_IDS) {
+    const decay = Math.pow(0.5, dtMin / DRUGS[id].halfLifeMin);
+    out[id] = clamp01(levels[id] + doses[id]) * decay;
+  }
+  return out;
+}
+
+/** Nivel de agonista que “ven” α4β2 y α7 (en la escala de la nicotina). */
+export type ReceptorLevels = { a4b2: number; a7: number };
+
+// Afinidad de la nicotina por α4β2 en unidades del proxy. Un puff por
+// defecto (puffDose 0.25) ocupa 4·0.25 / (1 + 4·0.25) = 0.5 del sitio, más
+// que la eficacia de la vareniclina (0.4): en el pico del puff el agonista
+// parcial quita más activación de la que aporta al desplazar a la nicotina.
+// El cruce está en nic = 0.4 / (4·0.6) ≈ 0.17; con afinidad 1 el puff solo
+// ocuparía 0.2 y la vareniclina subiría el pico.
+const NIC_AFFINITY = 4;
+
+// Ocupación competitiva del sitio agonista de α4β2:
+// occ_i = c_i·af_i / (1 + Σ c_j·af_j), con af_nic = NIC_AFFINITY y la de
+// cada fármaco relativa a ella. Los antagonistas no compiten por el sitio:
+// bloquean el canal con su propia curva x / (1 + x).
+function occupancy(nic: number, drugs: DrugLevels) {
+  const x = (id: DrugId) => drugs[id] * DRUGS[id].affinity * NIC_AFFINITY;
+  const total = DRUG_IDS.reduce(
+    (s, id) => (DRUGS[id].kind === "partialAgonist" ? s + x(id) : s),
+    nic * NIC_AFFINITY,
+  );
+  const drug = { ...NO_DRUGS };
+  for (const id of DRUG_IDS) {
+    const b = drugs[id] * DRUGS[id].affinity; // antagonista: sitio propio
+    drug[id] =
+      DRUGS[id].kind === "partialAgonist" ? x(id) / (1 + total) : b / (1 + b);
+  }
+  return { nic: (nic * NIC_AFFINITY) / (1 + total), drug };
+}
+
+// Nivel de nicotina que, sola, daría la misma fracción activa
+const nicotineEquivalent = (e: number) =>
+  clamp01(e / (NIC_AFFINITY * (1 - Math.min(e, 0.99))));
+
+/**
+ * Competencia en α4β2 con el mismo modelo de ocupación que
+ * `drugOccupancy`: la fracción activa es Σ ocupación × eficacia (nicotina
+ * = 1) menos lo que bloquean los antagonistas, y se devuelve como nivel
+ * equivalente de nicotina. Con el agonista parcial ocupando el sitio, el
+ * puff activa menos que sin él. α7 (baja afinidad, lejos de saturar)
+ * suma los agonistas. Sin fármacos devuelve la nicotina.
+ */
+export function receptorLevels(nic: number, drugs: DrugLevels): ReceptorLevels {
+  const occ = occupancy(nic, drugs);
+  let a4b2 = occ.nic;
+  let a7 = nic;
+  let block = 0;
+  let a7Block = 0;
+  for (const id of DRUG_IDS) {
+    const p = DRUGS[id];
+    if (p.kind === "partialAgonist") {
+      a4b2 += occ.drug[id] * p.a4b2Efficacy;
+      a7 += drugs[id] * p.a7Efficacy;
+    } else {
+      block = Math.max(block, occ.drug[id]);
+      a7Block = Math.max(a7Block, occ.drug[id] * p.a7Block);
+    }
+  }
+  return {
+    a4b2: nicotineEquivalent(a4b2 * (1 - block)),
+    a7: clamp01(a7 * (1 - a7Block)),
+  };
+}
+
+/**
+ * Fracción de α4β2 ocupada por cada fármaco (para el circuito): sitio
+ * agonista para los agonistas parciales, canal bloqueado para los
+ * antagonistas.
+ */
+export function drugOccupancy(nic: number, drugs: DrugLevels): DrugLevels {
+  return occupancy(nic, drugs).drug;
+}
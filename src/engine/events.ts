@@ -0,0 +1,198 @@
+/**
+ * Detección de momentos clave sobre el trace (α7 ON/OFF, α4β2 desensibilizado,
+ * recuperación a basal, picos de DA) + cambios de parámetros y notas del
+ * docente. Incremental: se alimenta con los puntos nuevos de cada frame.
+ */
+import { HISTORY_MAX_MIN } from "./history";
+import {
+  poolToState,
+  type Alpha4b2State,
+  type ModelParams,
+  type TracePoint,
+} from "./model";
+import { PARAM_SPECS } from "./paramSpec";
+
+export type SimEventKind =
+  "alpha7" | "desens" | "recover" | "daPeak" | "param" | "note";
+
+export type SimEvent = {
+  t: number;
+  kind: SimEventKind;
+  label: string; // texto del registro
+  short: string; // etiqueta corta del marcador en el timeline
+};
+
+// Histéresis de picos: el DA debe bajar DROP tras el máximo, y el pico
+// sobresalir al menos MIN_RISE del valle anterior
+const PEAK_DROP = 0.02;
+const PEAK_MIN_RISE = 0.05;
+
+export type DetectorState = {
+  last: TracePoint | null;
+  rising: boolean;
+  extreme: TracePoint | null; // máximo (subiendo) o mínimo (bajando) en curso
+  trough: number; // último valle de DA
+};
+
+export const INITIAL_DETECTOR: DetectorState = {
+  last: null,
+  rising: true,
+  extreme: null,
+  trough: Infinity,
+};
+
+const POOLS: { name: string; get: (p: TracePoint) => Alpha4b2State }[] = [
+  { name: "DA", get: (p) => poolToState(p.poolDA) },
+  { name: "GABA", get: (p) => poolToState(p.poolGABA) },
+];
+
+/** Eventos en `points` (en orden) y el estado para la siguiente llamada. */
+export function detectEvents(
+  state: DetectorState,
+  points: readonly TracePoint[],
+): { events: SimEvent[]; state: DetectorState } {
+  const events: SimEvent[] = [];
+  let { last, rising, extreme, trough } = state;
+
+  for (const p of points) {
+    if (last) {
+      const a7 = p.alpha7AchOn || p.alpha7GluOn;
+      if (a7 !== (last.alpha7AchOn || last.alpha7GluOn)) {
+        events.push({
+          t: p.t,
+          kind: "alpha7",
+          label: a7
+            ? "α7 ON: nicotina supera el umbral (ACh/Glu ↑)"
+            : "α7 OFF: nicotina bajo el umbral",
+          short: a7 ? "α7 ON" : "α7 OFF",
+        });
+      }
+      for (const pool of POOLS) {
+        const before = pool.get(last);
+        const now = pool.get(p);
+        if (before === now) continue;
+        if (now === "desensibilizado") {
+          events.push({
+            t: p.t,
+            kind: "desens",
+            label: `α4β2 ${pool.name} pasa a desensibilizado`,
+            short: `Desens ${pool.name}`,
+          });
+        } else if (before === "desensibilizado") {
+          // Sale de desensibilizado: a basal o, con nicotina de nuevo, a activado
+          events.push({
+            t: p.t,
+            kind: "recover",
+            label: `α4β2 ${pool.name} recuperado (${now})`,
+            short: `Recup. ${pool.name}`,
+          });
+        }
+      }
+    }
+
+    // Picos de DA con histéresis
+    if (!extreme) {
+      extreme = p;
+      trough = Math.min(trough, p.da);
+    } else if (rising) {
+      if (p.da >= extreme.da) extreme = p;
+      else if (extreme.da - p.da > PEAK_DROP) {
+        if (extreme.da - trough >= PEAK_MIN_RISE) {
+          events.push({
+            t: extreme.t,
+            kind: "daPeak",
+            label: `Pico de DA (${extreme.da.toFixed(2)})`,
+            short: "Pico DA",
+          });
+        }
+        rising = false;
+        extreme = p;
+      }
+    } else if (p.da <= extreme.da) extreme = p;
+    else if (p.da - extreme.da > PEAK_DROP) {
+      trough = extreme.da;
+      rising = true;
+      extreme = p;
+    }
+
+    last = p;
+  }
+
+  events.sort((a, b) => a.t - b.t);
+  return { events, state: { last, rising, extreme, trough } };
+}
+
+/** Un evento por parámetro que cambia (“Ventana desensibilización: 45 → 20 min”). */
+export function paramChangeEvents(
+  prev: ModelParams,
+  next: ModelParams,
+  t: number,
+): SimEvent[] {
+  const out: SimEvent[] = PARAM_SPECS.filter(
+    (s) => prev[s.key] !== next[s.key],
+  ).map((s) => ({
+    t,
+    kind: "param",
+    label: `${s.label}: ${prev[s.key]} → ${next[s.key]} ${s.unit}`,
+    short: s.label,
+  }));
+  if (prev.integrator !== next.integrator) {
+    out.push({
+      t,
+      kind: "param",
+      label: `Integrador: ${next.integrator.toUpperCase()}`,
+      short: next.integrator.toUpperCase(),
+    });
+  }
+  if (prev.pkMode !== next.pkMode) {
+    out.push({
+      t,
+      kind: "param",
+      label: next.pkMode ? "Modo PK activado" : "Modo PK desactivado",
+      short: next.pkMode ? "PK on" : "PK off",
+    });
+  }
+  if (prev.chronicMode !== next.chronicMode) {
+    out.push({
+      t,
+      kind: "param",
+      label: next.chronicMode
+        ? "Modo crónico activado"
+        : "Modo crónico desactivado",
+      short: next.chronicMode ? "Crónico on" : "Crónico off",
+    });
+  }
+  return out;
+}
+
+export function noteEvent(t: number, text: string): SimEvent {
+  const label = text.trim();
+  return {
+    t,
+    kind: "note",
+    label,
+    short: label.length > 18 ? `${label.slice(0, 17)}…` : label,
+  };
+}
+
+/** Quita la primera entrada con ese minuto y texto (los duplicados se quedan). */
+export function removeEvent(
+  events: readonly SimEvent[],
+  at: number,
+  label: string,
+): SimEvent[] {
+  const i = events.findIndex((e) => e.t === at && e.label === label);
+  return events.filter((_, j) => j !== i);
+}
+
+/** Añade manteniendo el orden y descarta lo que ya salió del historial. */
+export function appendEvents(
+  events: readonly SimEvent[],
+  found: readonly SimEvent[],
+  tNow: number,
+): SimEvent[] {
+  if (found.length === 0) return events as SimEvent[];
+  return [...events, ...found]
+    .filter((e) => e.t >= tNow - HISTORY_MAX_MIN)
+    .sort((a, b) => a.t - b.t);
+}
@@ -0,0 +1,92 @@
+/**
+ * Historial largo del timeline: la última hora a resolución completa y el
+ * resto compactado (un punto cada COARSE_DT_MIN, conservando los puffs),
+ * hasta HISTORY_MAX_MIN. Sirve igual para el trace y para las instantáneas
+ * de estado (rebobinar).
+ */
+import { lowerBound } from "./math";
+import type { TracePoint } from "./model";
+
+export const HISTORY_MAX_MIN = 24 * 60;
+export const RECENT_MIN = 60;
+export const COARSE_DT_MIN = 0.5;
+
+type Timed = { t: number; puff?: boolean };
+
+/** Añade puntos nuevos y compacta los que acaban de salir de la última hora. */
+export function appendHistory<T extends Timed>(
+  history: readonly T[],
+  points: readonly T[],
+): T[] {
+  if (points.length === 0) return history as T[];
+
+  const end = points[points.length - 1].t;
+  const start = end - HISTORY_MAX_MIN;
+  // Lo anterior a oldEdge ya se compactó en llamadas previas
+  const oldEdge = (history.at(-1)?.t ?? -Infinity) - RECENT_MIN;
+  const newEdge = end - RECENT_MIN;
+
+  const out: T[] = [];
+  let lastBucket = NaN;
+  for (const p of [history, points]) {
+    for (let i = 0; i < p.length; i++) {
+      const pt = p[i];
+      if (pt.t < start) continue;
+      const bucket = Math.floor(pt.t / COARSE_DT_MIN);
+      if (
+        pt.t >= oldEdge &&
+        pt.t < newEdge &&
+        !pt.puff &&
+        bucket === lastBucket
+      ) {
+        continue;
+      }
+      lastBucket = bucket;
+      out.push(pt);
+    }
+  }
+  return out;
+}
+
+/** Puntos con t en [t0, t1], más un vecino a cada lado para que la línea llegue al borde. */
+export function sliceByTime(
+  trace: readonly TracePoint[],
+  t0: number,
+  t1: number,
+): TracePoint[] {
+  const i0 = Math.max(0, lowerBound(trace, t0) - 1);
+  const i1 = Math.min(trace.length, lowerBound(trace, t1) + 1);
+  return trace.slice(i0, i1);
+}
+
+/**
+ * Reduce a como mucho `maxPoints` (uno de cada k) para dibujar; conserva el
+ * primero, el último y los puffs.
+ */
+export function decimate(
+  trace: readonly TracePoint[],
+  maxPoints: number,
+): TracePoint[] {
+  if (trace.length <= maxPoints) return trace as TracePoint[];
+  const k = Math.ceil(trace.length / maxPoints);
+  return trace.filter(
+    (p, i) => i % k === 0 || p.puff || i === trace.length - 1,
+  );
+}
+
+/** Punto más cercano a `t` (null si el trace está vacío). */
+export function pointAt<T extends Timed>(
+  trace: readonly T[],
+  t: number,
+): T | null {
+  if (trace.length === 0) return null;
+  const i = lowerBound(trace, t);
+  if (i === 0) return trace[0];
+  if (i === trace.length) return trace[i - 1];
+  return t - trace[i - 1].t <= trace[i].t - t ? trace[i - 1] : trace[i];
+}
+
+/** Descarta lo posterior a `t` (para continuar la simulación desde ahí). */
+export function truncateAfter<T extends Timed>(items: readonly T[], t: number) {
+  return items.slice(0, lowerBound(items, t + 1e-9));
+}
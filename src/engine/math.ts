@@ -0,0 +1,14 @@
+// Utilidades numéricas compartidas por los módulos del motor
+export const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+/** Primer índice con `t >= t0` en una lista ordenada por `t` (búsqueda binaria). */
+export function lowerBound(items: readonly { t: number }[], t0: number) {
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid].t < t0) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
@@ -0,0 +1,527 @@
+/**
+ * Núcleo del modelo (sin UI): nicotina → α7 (ACh/Glu) + α4β2 (DA/GABA) → DA.
+ *
+ * Todo es puro: recibe un estado y devuelve el siguiente, de modo que el
+ * componente, scripts y futuras vistas comparten la misma fuente de verdad.
+ *
+ * Nota: Modelo conceptual para docencia (no clínico).
+ */
+import {
+  DEFAULT_DELIVERY,
+  EMPTY_DEPOTS,
+  ROUTES,
+  deliver,
+  type Delivery,
+  type Depots,
+  type DoseRoute,
+} from "./routes";
+import { clamp01 } from "./math";
+import { stepPK } from "./pk";
+import { stepCraving, type CravingState } from "./craving";
+import {
+  NO_DRUGS,
+  receptorLevels,
+  regimenDoses,
+  stepDrugs,
+  type DrugLevels,
+} from "./drugs";
+import { stepDensity } from "./upregulation";
+
+// ---------- Helpers ----------
+export { clamp01 };
+
+export type Alpha4b2State = "basal" | "activado" | "desensibilizado";
+
+/** Método numérico para los pools α4β2 (nicotina decae de forma exacta). */
+export type Integrator = "euler" | "rk4";
+
+export type ModelParams = {
+  nicotineHalfLifeMin: number; // proxy
+  actThreshold: number;
+  desensRateDA: number;
+  desensRateGABA: number;
+  alpha7Threshold: number;
+  desensWindowMin: number; // ventana típica de desensibilización (~45 min)
+  integrator: Integrator;
+  // PK opcional: absorción → plasma (central) → cerebro (efecto)
+  pkMode: boolean;
+  pkKaMin: number; // absorción pulmonar (1/min)
+  pkKe0Min: number; // equilibrio plasma → cerebro (1/min)
+  // Capa crónica opcional (días): densidad total de α4β2 (upregulation)
+  chronicMode: boolean;
+  upregPerDay: number; // crecimiento con todo el pool desensibilizado (1/día)
+  downregHalfLifeDays: number; // vuelta a la densidad naive sin desensibilización
+  maxDensity: number; // techo de la densidad (× naive)
+  // Índice de craving / abstinencia (ver craving.ts)
+  cravingRecoveredW: number; // peso de los receptores recuperados y libres
+  cravingDeficitW: number; // peso de la DA por debajo de la basal
+  cravingBaselineDA: number; // DA de referencia (reposo ≈ 0.5)
+  cravingReliefMin: number; // los recuperados dejan de “pedir” con el tiempo
+  cravingOnsetMin: number; // tras una dosis el craving tarda en aparecer
+  autoPuffThreshold: number; // craving que dispara un puff (auto-puff)
+
+  // Coeficientes del circuito (antes fijos en stepModel/stepAlpha4b2)
+  puffDose: number; // incremento de nicotina por puff de cigarrillo
+  actRate: number; // basal → activado (1/min, a nicDrive=1)
+  recoverLowNicFraction: number; // “nicotina baja” = < fracción·actThreshold
+  recoverSlowFactor: number; // recuperación relativa con nicotina alta
+  achBase: number;
+  achGain: number;
+  gluBase: number;
+  gluGain: number;
+  alpha7OffDrive: number; // drive extra con α7 OFF
+  directBase: number;
+  directGain: number;
+  directAchW: number;
+  directGluW: number;
+  gabaBase: number;
+  gabaActGain: number;
+  gabaDesensGain: number;
+  indirectBase: number;
+  indirectGain: number;
+  daBase: number;
+  daDirectW: number;
+  daIndirectW: number;
+};
+
+export const DEFAULT_PARAMS: ModelParams = {
+  nicotineHalfLifeMin: 120,
+  actThreshold: 0.15,
+  desensRateDA: 0.03,
+  desensRateGABA: 0.04,
+  alpha7Threshold: 0.08,
+  desensWindowMin: 45,
+  integrator: "euler",
+  pkMode: false,
+  pkKaMin: 1,
+  pkKe0Min: 0.2,
+  chronicMode: false,
+  upregPerDay: 0.2,
+  downregHalfLifeDays: 7,
+  maxDensity: 2,
+  cravingRecoveredW: 1.5,
+  cravingDeficitW: 1,
+  cravingBaselineDA: 0.5,
+  cravingReliefMin: 180,
+  cravingOnsetMin: 20,
+  autoPuffThreshold: 0.35,
+
+  puffDose: ROUTES.cigarette.defaultDose,
+  actRate: 0.25,
+  recoverLowNicFraction: 0.9,
+  recoverSlowFactor: 0.35,
+  achBase: 0.35,
+  achGain: 0.45,
+  gluBase: 0.3,
+  gluGain: 0.55,
+  alpha7OffDrive: 0.05,
+  directBase: 0.15,
+  directGain: 0.95,
+  directAchW: 0.55,
+  directGluW: 0.65,
+  gabaBase: 0.25,
+  gabaActGain: 0.95,
+  gabaDesensGain: 0.85,
+  indirectBase: 0.15,
+  indirectGain: 0.9,
+  daBase: 0.1,
+  daDirectW: 0.75,
+  daIndirectW: 0.35,
+};
+
+/** Dosis de un puff/calada/pieza según la vía (el cigarrillo usa puffDose). */
+export function routeDose(route: DoseRoute, params: ModelParams): number {
+  return route === "cigarette" ? params.puffDose : ROUTES[route].defaultDose;
+}
+
+export type ReceptorPool = { basal: number; activado: number; desens: number };
+
+export const BASAL_POOL: ReceptorPool = { basal: 1, activado: 0, desens: 0 };
+
+/**
+ * Densidad total de α4β2 en DA y GABA relativa a un cerebro sin exposición
+ * (1 = naive). Los pools siguen siendo fracciones; la densidad escala cuánto
+ * pesan en el circuito.
+ */
+export type ReceptorDensity = { da: number; gaba: number };
+
+export const NAIVE_DENSITY: ReceptorDensity = { da: 1, gaba: 1 };
+
+export function normalizePool(p: ReceptorPool): ReceptorPool {
+  const s = p.basal + p.activado + p.desens;
+  if (s <= 0) return { basal: 1, activado: 0, desens: 0 };
+  return { basal: p.basal / s, activado: p.activado / s, desens: p.desens / s };
+}
+
+export function poolToState(p: ReceptorPool): Alpha4b2State {
+  if (p.desens >= p.basal && p.desens >= p.activado) return "desensibilizado";
+  if (p.activado >= p.basal && p.activado >= p.desens) return "activado";
+  return "basal";
+}
+
+// Tasas (1/min) de basal→activado, activado→desens y desens→basal
+function alpha4b2Rates(nic: number, params: ModelParams, desensRate: number) {
+  // Recuperación definida por ventana: si ventana=45 min, recover≈1/45 por min
+  // (tiempo característico; en un modelo de fracciones esto es didáctico pero muy útil)
+  const recoverRate = 1 / Math.max(1, params.desensWindowMin);
+
+  const above = nic > params.actThreshold;
+  const nicDrive = clamp01(
+    (nic - params.actThreshold) / (1 - params.actThreshold),
+  );
+
+  // Recuperación: más rápida cuando nicotina está baja; más lenta si sigue alta
+  const lowNic = nic < params.actThreshold * params.recoverLowNicFraction;
+
+  return {
+    act: above ? params.actRate * nicDrive : 0,
+    desens: above ? desensRate : 0,
+    recover: lowNic ? recoverRate : recoverRate * params.recoverSlowFactor,
+  };
+}
+
+export function stepAlpha4b2(
+  dtMin: number,
+  nic: number,
+  pool: ReceptorPool,
+  params: ModelParams,
+  desensRate: number,
+): ReceptorPool {
+  const k = alpha4b2Rates(nic, params, desensRate);
+
+  if (params.integrator === "rk4") {
+    // Mismo sistema lineal, integrado con RK4 (nicotina constante en el paso)
+    const f = (q: ReceptorPool): ReceptorPool => ({
+      basal: -k.act * q.basal + k.recover * q.desens,
+      activado: k.act * q.basal - k.desens * q.activado,
+      desens: k.desens * q.activado - k.recover * q.desens,
+    });
+    const add = (q: ReceptorPool, d: ReceptorPool, h: number) => ({
+      basal: q.basal + d.basal * h,
+      activado: q.activado + d.activado * h,
+      desens: q.desens + d.desens * h,
+    });
+    const k1 = f(pool);
+    const k2 = f(add(pool, k1, dtMin / 2));
+    const k3 = f(add(pool, k2, dtMin / 2));
+    const k4 = f(add(pool, k3, dtMin));
+    const d = {
+      basal: (k1.basal + 2 * k2.basal + 2 * k3.basal + k4.basal) / 6,
+      activado:
+        (k1.activado + 2 * k2.activado + 2 * k3.activado + k4.activado) / 6,
+      desens: (k1.desens + 2 * k2.desens + 2 * k3.desens + k4.desens) / 6,
+    };
+    const next = add(pool, d, dtMin);
+    return normalizePool({
+      basal: Math.max(0, next.basal),
+      activado: Math.max(0, next.activado),
+      desens: Math.max(0, next.desens),
+    });
+  }
+
+  // Euler secuencial (cada flujo usa el pool ya actualizado)
+  const p = { ...pool };
+
+  const toActive = p.basal * k.act * dtMin;
+  p.basal -= toActive;
+  p.activado += toActive;
+
+  const toDesens = p.activado * k.desens * dtMin;
+  p.activado -= toDesens;
+  p.desens += toDesens;
+
+  const toBasal = p.desens * k.recover * dtMin;
+  p.desens -= toBasal;
+  p.basal += toBasal;
+
+  return normalizePool(p);
+}
+
+export type ModelOut = {
+  nicotine: number; // nivel que ven los receptores (cerebro en modo PK)
+  plasma: number; // = nicotine fuera del modo PK
+  alpha7AchOn: boolean;
+  alpha7GluOn: boolean;
+  achDrive: number;
+  gluDrive: number;
+  poolDA: ReceptorPool;
+  poolGABA: ReceptorPool;
+  gaba: number;
+  da: number;
+  direct: number;
+  indirect: number;
+};
+
+export function stepModel(
+  dtMin: number,
+  nicotine: number,
+  poolDA: ReceptorPool,
+  poolGABA: ReceptorPool,
+  dose: number,
+  params: ModelParams,
+  density: ReceptorDensity = NAIVE_DENSITY,
+  drugs: DrugLevels = NO_DRUGS,
+): ModelOut {
+  // 1) Entrada + decaimiento nicotina
+  let nic = nicotine;
+  if (dose > 0) nic = clamp01(nic + dose);
+
+  const decay = Math.pow(0.5, dtMin / params.nicotineHalfLifeMin);
+  nic = clamp01(nic * decay);
+
+  return {
+    ...stepCircuit(dtMin, nic, poolDA, poolGABA, params, density, drugs),
+    nicotine: nic,
+    plasma: nic,
+  };
+}
+
+export type CircuitOut = Omit<ModelOut, "nicotine" | "plasma">;
+
+/** Receptores + vías para un nivel de nicotina ya calculado. */
+export function stepCircuit(
+  dtMin: number,
+  nic: number,
+  poolDA: ReceptorPool,
+  poolGABA: ReceptorPool,
+  params: ModelParams,
+  density: ReceptorDensity = NAIVE_DENSITY,
+  drugs: DrugLevels = NO_DRUGS,
+): CircuitOut {
+  // Nicotina + fármacos compitiendo (sin fármacos: la propia nicotina)
+  const level = receptorLevels(nic, drugs);
+
+  // 2) α7 presinápticos separados
+  const alpha7AchOn = level.a7 > params.alpha7Threshold;
+  const alpha7GluOn = level.a7 > params.alpha7Threshold;
+
+  // Drives (proxies): facilitan entrada excitatoria hacia DA
+  const achDrive = clamp01(
+    params.achBase +
+      (alpha7AchOn ? params.achGain * level.a7 : params.alpha7OffDrive),
+  );
+  const gluDrive = clamp01(
+    params.gluBase +
+      (alpha7GluOn ? params.gluGain * level.a7 : params.alpha7OffDrive),
+  );
+
+  // 3) α4β2 explícito en DA (vía directa) y en GABA (vía indirecta)
+  const nextPoolDA = stepAlpha4b2(
+    dtMin,
+    level.a4b2,
+    poolDA,
+    params,
+    params.desensRateDA,
+  );
+  const nextPoolGABA = stepAlpha4b2(
+    dtMin,
+    level.a4b2,
+    poolGABA,
+    params,
+    params.desensRateGABA,
+  );
+
+  // 4) Vía directa / indirecta (cada fracción pesa según la densidad)
+  const direct = clamp01(
+    params.directBase +
+      params.directGain *
+        nextPoolDA.activado *
+        density.da *
+        (params.directAchW * achDrive + params.directGluW * gluDrive),
+  );
+
+  // GABA alto cuando activación GABA-α4β2, bajo cuando desensibilizado
+  const gaba = clamp01(
+    params.gabaBase +
+      density.gaba *
+        (params.gabaActGain * nextPoolGABA.activado -
+          params.gabaDesensGain * nextPoolGABA.desens),
+  );
+  const indirect = clamp01(
+    params.indirectBase + params.indirectGain * (1 - gaba),
+  );
+
+  // Dopamina final
+  const da = clamp01(
+    params.daBase + params.daDirectW * direct + params.daIndirectW * indirect,
+  );
+
+  return {
+    alpha7AchOn,
+    alpha7GluOn,
+    achDrive,
+    gluDrive,
+    poolDA: nextPoolDA,
+    poolGABA: nextPoolGABA,
+    gaba,
+    da,
+    direct,
+    indirect,
+  };
+}
+
+// ---------- Estado completo + paso puro ----------
+
+/** Estado completo de la simulación en el minuto `t`. */
+export type SimState = ModelOut & {
+  t: number;
+  depots: Depots;
+  density: ReceptorDensity;
+  drugs: DrugLevels; // nivel de cada fármaco (proxy 0–1)
+  craving: number; // índice 0–1 (salida derivada)
+  recoveredDA: number; // α4β2 (DA) recuperados aún libres
+  sinceDoseMin: number;
+};
+
+/**
+ * Entrada externa de un paso: cuánto avanzar, dosis al inicio (0 = nada) y
+ * vía de administración (por defecto cigarrillo sin parche).
+ */
+export type StepInput = { dtMin: number; dose: number; delivery?: Delivery };
+
+// Valores de arranque de la vista (antes de calcular el primer paso)
+export const INITIAL_STATE: SimState = {
+  t: 0,
+  depots: EMPTY_DEPOTS,
+  density: NAIVE_DENSITY,
+  drugs: NO_DRUGS,
+  craving: 0,
+  recoveredDA: 0,
+  sinceDoseMin: 24 * 60, // sin dosis reciente
+  nicotine: 0,
+  plasma: 0,
+  alpha7AchOn: false,
+  alpha7GluOn: false,
+  achDrive: 0.35,
+  gluDrive: 0.3,
+  poolDA: BASAL_POOL,
+  poolGABA: BASAL_POOL,
+  gaba: 0.5,
+  da: 0.2,
+  direct: 0.2,
+  indirect: 0.2,
+};
+
+export function step(
+  state: SimState,
+  input: StepInput,
+  params: ModelParams,
+): SimState {
+  const next = stepCore(state, input, params);
+  return {
+    ...next,
+    ...stepCraving(state, next, input.dose > 0, input.dtMin, params),
+  };
+}
+
+// Todo menos el craving, que se deriva del estado anterior y el nuevo
+function stepCore(
+  state: SimState,
+  input: StepInput,
+  params: ModelParams,
+): Omit<SimState, keyof CravingState> {
+  const delivery = input.delivery ?? DEFAULT_DELIVERY;
+  const { depots, input: nicIn } = deliver(
+    state.depots,
+    input.dose,
+    delivery,
+    input.dtMin,
+    params.pkMode ? params.pkKaMin : 0,
+  );
+  const t = state.t + input.dtMin;
+  const drugs = stepDrugs(
+    state.drugs,
+    delivery.drugs ? regimenDoses(delivery.drugs, state.t, t) : NO_DRUGS,
+    input.dtMin,
+  );
+  const density = params.chronicMode
+    ? stepDensity(
+        state.density,
+        state.poolDA,
+        state.poolGABA,
+        input.dtMin,
+        params,
+      )
+    : state.density;
+
+  if (!params.pkMode) {
+    const out = stepModel(
+      input.dtMin,
+      state.nicotine,
+      state.poolDA,
+      state.poolGABA,
+      nicIn,
+      params,
+      state.density,
+      state.drugs,
+    );
+    return { ...out, t, depots, density, drugs };
+  }
+
+  // Modo PK: los receptores ven la nicotina del compartimento cerebral
+  const { plasma, brain } = stepPK(
+    state.plasma,
+    state.nicotine,
+    nicIn,
+    input.dtMin,
+    params,
+  );
+  const out = stepCircuit(
+    input.dtMin,
+    brain,
+    state.poolDA,
+    state.poolGABA,
+    params,
+    state.density,
+    state.drugs,
+  );
+  return { ...out, nicotine: brain, plasma, t, depots, density, drugs };
+}
+
+// ---------- Trace (timeline) ----------
+
+export type TracePoint = {
+  t: number;
+  da: number;
+  gaba: number;
+  nic: number;
+  plasma: number;
+  desAll: number;
+  puff: boolean;
+  // Resto de ModelOut (para exportar y analizar fuera de la app)
+  direct: number;
+  indirect: number;
+  achDrive: number;
+  gluDrive: number;
+  alpha7AchOn: boolean;
+  alpha7GluOn: boolean;
+  poolDA: ReceptorPool;
+  poolGABA: ReceptorPool;
+  density: ReceptorDensity;
+  drugs: DrugLevels;
+  craving: number;
+};
+
+export function toTracePoint(s: SimState, puff: boolean): TracePoint {
+  const desAll = clamp01(0.5 * s.poolDA.desens + 0.5 * s.poolGABA.desens);
+  return {
+    t: s.t,
+    da: s.da,
+    gaba: s.gaba,
+    nic: s.nicotine,
+    plasma: s.plasma,
+    desAll,
+    puff,
+    direct: s.direct,
+    indirect: s.indirect,
+    achDrive: s.achDrive,
+    gluDrive: s.gluDrive,
+    alpha7AchOn: s.alpha7AchOn,
+    alpha7GluOn: s.alpha7GluOn,
+    poolDA: s.poolDA,
+    poolGABA: s.poolGABA,
+    density: s.density,
+    drugs: s.drugs,
+    craving: s.craving,
+  };
+}
@@ -0,0 +1,436 @@
+/**
+ * Metadatos de cada parámetro numérico de ModelParams: etiqueta, unidad,
+ * rango válido y una explicación corta. Lo usan el panel “Avanzado” y la
+ * validación al importar configuraciones.
+ */
+import type { ModelParams } from "./model";
+
+export type NumericParamKey = {
+  [K in keyof ModelParams]: ModelParams[K] extends number ? K : never;
+}[keyof ModelParams];
+
+export type ParamGroup =
+  "nicotina" | "receptores" | "pk" | "circuito" | "cronico" | "craving";
+
+export type ParamSpec = {
+  key: NumericParamKey;
+  group: ParamGroup;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  help: string;
+};
+
+export const PARAM_GROUPS: { id: ParamGroup; label: string }[] = [
+  { id: "nicotina", label: "Nicotina" },
+  { id: "receptores", label: "Receptores α4β2 / α7" },
+  { id: "pk", label: "PK (plasma → cerebro)" },
+  { id: "circuito", label: "Circuito DA / GABA" },
+  { id: "cronico", label: "Crónico (días)" },
+  { id: "craving", label: "Craving / abstinencia" },
+];
+
+export const PARAM_SPECS: ParamSpec[] = [
+  // Nicotina
+  {
+    key: "nicotineHalfLifeMin",
+    group: "nicotina",
+    label: "Vida media nicotina",
+    unit: "min",
+    min: 1,
+    max: 600,
+    step: 1,
+    help: "Eliminación del proxy (o del plasma en modo PK).",
+  },
+  {
+    key: "puffDose",
+    group: "nicotina",
+    label: "Dosis por puff",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Incremento de nicotina de un puff de cigarrillo.",
+  },
+
+  // Receptores
+  {
+    key: "actThreshold",
+    group: "receptores",
+    label: "Umbral activación α4β2",
+    unit: "fracción",
+    min: 0,
+    max: 0.99,
+    step: 0.01,
+    help: "Nicotina mínima para activar (y desensibilizar) α4β2.",
+  },
+  {
+    key: "actRate",
+    group: "receptores",
+    label: "Tasa activación α4β2",
+    unit: "1/min",
+    min: 0,
+    max: 5,
+    step: 0.01,
+    help: "Paso basal → activado con nicotina máxima.",
+  },
+  {
+    key: "desensRateDA",
+    group: "receptores",
+    label: "Desensibilización α4β2 (DA)",
+    unit: "1/min",
+    min: 0,
+    max: 1,
+    step: 0.005,
+    help: "Paso activado → desensibilizado en la neurona DA.",
+  },
+  {
+    key: "desensRateGABA",
+    group: "receptores",
+    label: "Desensibilización α4β2 (GABA)",
+    unit: "1/min",
+    min: 0,
+    max: 1,
+    step: 0.005,
+    help: "Igual en GABA; por defecto más rápida que en DA.",
+  },
+  {
+    key: "desensWindowMin",
+    group: "receptores",
+    label: "Ventana desensibilización",
+    unit: "min",
+    min: 1,
+    max: 600,
+    step: 1,
+    help: "Tiempo característico de recuperación a basal (1/ventana).",
+  },
+  {
+    key: "recoverLowNicFraction",
+    group: "receptores",
+    label: "Umbral “nicotina baja”",
+    unit: "× umbral",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    help: "Por debajo de esta fracción del umbral se recupera a ritmo pleno.",
+  },
+  {
+    key: "recoverSlowFactor",
+    group: "receptores",
+    label: "Recuperación con nicotina",
+    unit: "× ritmo",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    help: "Ritmo relativo de recuperación mientras la nicotina sigue alta.",
+  },
+  {
+    key: "alpha7Threshold",
+    group: "receptores",
+    label: "Umbral α7 (ACh/Glu)",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Nicotina a partir de la cual α7 presináptico se enciende.",
+  },
+
+  // PK
+  {
+    key: "pkKaMin",
+    group: "pk",
+    label: "Absorción pulmonar (ka)",
+    unit: "1/min",
+    min: 0.01,
+    max: 10,
+    step: 0.05,
+    help: "Paso del pulmón a plasma (solo modo PK).",
+  },
+  {
+    key: "pkKe0Min",
+    group: "pk",
+    label: "Equilibrio plasma→cerebro (ke0)",
+    unit: "1/min",
+    min: 0.01,
+    max: 10,
+    step: 0.05,
+    help: "Menor = más retraso entre plasma y cerebro.",
+  },
+
+  // Circuito
+  {
+    key: "achBase",
+    group: "circuito",
+    label: "ACh drive basal",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Drive colinérgico sin nicotina.",
+  },
+  {
+    key: "achGain",
+    group: "circuito",
+    label: "ACh ganancia α7",
+    unit: "× nicotina",
+    min: 0,
+    max: 2,
+    step: 0.01,
+    help: "Aumento del drive ACh con α7 encendido.",
+  },
+  {
+    key: "gluBase",
+    group: "circuito",
+    label: "Glu drive basal",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Drive glutamatérgico sin nicotina.",
+  },
+  {
+    key: "gluGain",
+    group: "circuito",
+    label: "Glu ganancia α7",
+    unit: "× nicotina",
+    min: 0,
+    max: 2,
+    step: 0.01,
+    help: "Aumento del drive Glu con α7 encendido.",
+  },
+  {
+    key: "alpha7OffDrive",
+    group: "circuito",
+    label: "Drive con α7 OFF",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Pequeño drive tónico cuando α7 está apagado.",
+  },
+  {
+    key: "directBase",
+    group: "circuito",
+    label: "Vía directa basal",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Actividad directa sin α4β2 activado.",
+  },
+  {
+    key: "directGain",
+    group: "circuito",
+    label: "Vía directa ganancia",
+    unit: "×",
+    min: 0,
+    max: 3,
+    step: 0.01,
+    help: "Peso de α4β2 (DA) activado × drives excitatorios.",
+  },
+  {
+    key: "directAchW",
+    group: "circuito",
+    label: "Peso ACh en directa",
+    unit: "×",
+    min: 0,
+    max: 2,
+    step: 0.01,
+    help: "Contribución del drive ACh a la vía directa.",
+  },
+  {
+    key: "directGluW",
+    group: "circuito",
+    label: "Peso Glu en directa",
+    unit: "×",
+    min: 0,
+    max: 2,
+    step: 0.01,
+    help: "Contribución del drive Glu a la vía directa.",
+  },
+  {
+    key: "gabaBase",
+    group: "circuito",
+    label: "GABA basal",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Tono GABA sin α4β2 activado ni desensibilizado.",
+  },
+  {
+    key: "gabaActGain",
+    group: "circuito",
+    label: "GABA por α4β2 activado",
+    unit: "×",
+    min: 0,
+    max: 3,
+    step: 0.01,
+    help: "Subida de GABA cuando su α4β2 se activa.",
+  },
+  {
+    key: "gabaDesensGain",
+    group: "circuito",
+    label: "GABA por α4β2 desens.",
+    unit: "×",
+    min: 0,
+    max: 3,
+    step: 0.01,
+    help: "Caída de GABA cuando su α4β2 se desensibiliza.",
+  },
+  {
+    key: "indirectBase",
+    group: "circuito",
+    label: "Vía indirecta basal",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Desinhibición mínima de DA.",
+  },
+  {
+    key: "indirectGain",
+    group: "circuito",
+    label: "Vía indirecta ganancia",
+    unit: "× (1 − GABA)",
+    min: 0,
+    max: 3,
+    step: 0.01,
+    help: "Desinhibición de DA al bajar GABA.",
+  },
+  {
+    key: "daBase",
+    group: "circuito",
+    label: "DA basal",
+    unit: "fracción",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    help: "Dopamina tónica.",
+  },
+  {
+    key: "daDirectW",
+    group: "circuito",
+    label: "Peso vía directa en DA",
+    unit: "×",
+    min: 0,
+    max: 3,
+    step: 0.01,
+    help: "DA = basal + peso·directa + peso·indirecta.",
+  },
+  {
+    key: "daIndirectW",
+    group: "circuito",
+    label: "Peso vía indirecta en DA",
+    unit: "×",
+    min: 0,
+    max: 3,
+    step: 0.01,
+    help: "Contribución de la desinhibición GABA a DA.",
+  },
+
+  // Crónico
+  {
+    key: "upregPerDay",
+    group: "cronico",
+    label: "Upregulation",
+    unit: "1/día",
+    min: 0,
+    max: 5,
+    step: 0.05,
+    help: "Crecimiento de la densidad con todo el pool desensibilizado.",
+  },
+  {
+    key: "downregHalfLifeDays",
+    group: "cronico",
+    label: "Vuelta a naive (t½)",
+    unit: "días",
+    min: 0.5,
+    max: 60,
+    step: 0.5,
+    help: "En abstinencia la densidad vuelve a 1 con esta vida media.",
+  },
+  {
+    key: "maxDensity",
+    group: "cronico",
+    label: "Densidad máxima",
+    unit: "× naive",
+    min: 1.1,
+    max: 4,
+    step: 0.1,
+    help: "Techo de la densidad total de α4β2.",
+  },
+
+  // Craving
+  {
+    key: "cravingRecoveredW",
+    group: "craving",
+    label: "Peso receptores libres",
+    unit: "×",
+    min: 0,
+    max: 3,
+    step: 0.05,
+    help: "α4β2 (DA) recién recuperados de la desensibilización y sin nicotina.",
+  },
+  {
+    key: "cravingDeficitW",
+    group: "craving",
+    label: "Peso déficit de DA",
+    unit: "×",
+    min: 0,
+    max: 3,
+    step: 0.05,
+    help: "Cuánto suma la DA por debajo de la referencia.",
+  },
+  {
+    key: "cravingBaselineDA",
+    group: "craving",
+    label: "DA de referencia",
+    unit: "fracción",
+    min: 0.05,
+    max: 1,
+    step: 0.01,
+    help: "Por debajo de este nivel la falta de DA aumenta el craving.",
+  },
+  {
+    key: "cravingReliefMin",
+    group: "craving",
+    label: "Alivio espontáneo",
+    unit: "min",
+    min: 10,
+    max: 1440,
+    step: 10,
+    help: "Tiempo en que los receptores recuperados dejan de pedir nicotina.",
+  },
+  {
+    key: "cravingOnsetMin",
+    group: "craving",
+    label: "Inicio tras una dosis",
+    unit: "min",
+    min: 1,
+    max: 240,
+    step: 1,
+    help: "Justo después de una dosis no hay craving; aparece con esta escala.",
+  },
+  {
+    key: "autoPuffThreshold",
+    group: "craving",
+    label: "Umbral auto-puff",
+    unit: "0–1",
+    min: 0.05,
+    max: 1,
+    step: 0.05,
+    help: "Con auto-puff activo, un craving por encima dispara un puff.",
+  },
+];
+
+/** Mensaje de error si `value` no es válido para `spec`; null si lo es. */
+export function validateParam(spec: ParamSpec, value: number): string | null {
+  if (!Number.isFinite(value)) return "Debe ser un número.";
+  if (value < spec.min || value > spec.max) {
+    return `Fuera de rango (${spec.min}–${spec.max} ${spec.unit}).`;
+  }
+  return null;
+}
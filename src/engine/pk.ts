@@ -0,0 +1,25 @@
+/**
+ * PK de dos compartimentos (opcional): plasma (central) → cerebro (efecto).
+ * La absorción la ponen los depósitos de cada vía (ver routes.ts).
+ *
+ *   dCp/dt = entrada − kel·Cp        (kel desde nicotineHalfLifeMin)
+ *   dCe/dt = ke0·(Cp − Ce)           (retraso plasma → cerebro)
+ */
+import { clamp01 } from "./math";
+import type { ModelParams } from "./model";
+
+export function stepPK(
+  plasma: number,
+  brain: number,
+  input: number,
+  dtMin: number,
+  params: ModelParams,
+): { plasma: number; brain: number } {
+  const decay = Math.pow(0.5, dtMin / params.nicotineHalfLifeMin);
+  const nextPlasma = clamp01((plasma + input) * decay);
+
+  const eq = 1 - Math.exp(-params.pkKe0Min * dtMin);
+  const nextBrain = clamp01(brain + (nextPlasma - brain) * eq);
+
+  return { plasma: nextPlasma, brain: nextBrain };
+}
@@ -0,0 +1,212 @@
+/**
+ * Biblioteca de presets: los tres de serie (solo lectura) + los del docente,
+ * en el orden en que se muestran. Operaciones puras + import/export JSON.
+ */
+import { validateConfig, type SessionConfig } from "./config";
+import {
+  PRESETS,
+  PRESET_IDS,
+  isBuiltinPreset,
+  type InitialState,
+  type Preset,
+  type PresetDef,
+  type PresetDelivery,
+} from "./presets";
+
+export const LIBRARY_VERSION = 1;
+
+export const BUILTIN_LIBRARY: PresetDef[] = PRESET_IDS.map((id) => PRESETS[id]);
+
+export function findPreset(
+  library: readonly PresetDef[],
+  id: Preset,
+): PresetDef | undefined {
+  return library.find((p) => p.id === id);
+}
+
+function newPresetId(): Preset {
+  return `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+const deliveryOf = (cfg: SessionConfig): PresetDelivery => ({
+  route: cfg.route,
+  patchOn: cfg.patchOn,
+  patchDose: cfg.patchDose,
+  autoPuff: cfg.autoPuff,
+  drugs: cfg.drugs,
+});
+
+/** Preset nuevo con el escenario actual (parámetros, pauta y vía incluidos). */
+export function presetFromConfig(
+  cfg: SessionConfig,
+  label: string,
+  description: string,
+  initial: InitialState = cfg.initial,
+): PresetDef {
+  return {
+    id: newPresetId(),
+    label,
+    description,
+    builtin: false,
+    puffsPerMin: cfg.puffsPerMin,
+    initial,
+    params: { ...cfg.params },
+    schedule: [...cfg.schedule],
+    delivery: deliveryOf(cfg),
+  };
+}
+
+/** Copia editable justo debajo del original. */
+export function duplicatePreset(
+  library: readonly PresetDef[],
+  id: Preset,
+): PresetDef[] {
+  const i = library.findIndex((p) => p.id === id);
+  if (i < 0) return [...library];
+  const copy: PresetDef = {
+    ...library[i],
+    id: newPresetId(),
+    label: `${library[i].label} (copia)`,
+    builtin: false,
+  };
+  return [...library.slice(0, i + 1), copy, ...library.slice(i + 1)];
+}
+
+/** Cambia nombre/descripción u otros campos; los de serie no se tocan. */
+export function updatePreset(
+  library: readonly PresetDef[],
+  id: Preset,
+  changes: Partial<Omit<PresetDef, "id" | "builtin">>,
+): PresetDef[] {
+  return library.map((p) =>
+    p.id === id && !p.builtin ? { ...p, ...changes } : p,
+  );
+}
+
+export function movePreset(
+  library: readonly PresetDef[],
+  id: Preset,
+  delta: -1 | 1,
+): PresetDef[] {
+  const i = library.findIndex((p) => p.id === id);
+  const j = i + delta;
+  if (i < 0 || j < 0 || j >= library.length) return [...library];
+  const out = [...library];
+  [out[i], out[j]] = [out[j], out[i]];
+  return out;
+}
+
+export function removePreset(
+  library: readonly PresetDef[],
+  id: Preset,
+): PresetDef[] {
+  return library.filter((p) => p.id !== id || p.builtin);
+}
+
+/**
+ * Los de serie siempre están y con su definición original (aunque el
+ * archivo traiga otra); los que falten se añaden al final.
+ */
+export function withBuiltins(library: readonly PresetDef[]): PresetDef[] {
+  const out = library.map((p) => (isBuiltinPreset(p.id) ? PRESETS[p.id] : p));
+  for (const b of BUILTIN_LIBRARY) {
+    if (!out.some((p) => p.id === b.id)) out.push(b);
+  }
+  return out;
+}
+
+// ---------- Validación / archivo JSON ----------
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** Valida un preset (reutiliza la validación de la configuración). */
+export function validatePreset(raw: unknown): PresetDef {
+  if (!isObject(raw)) throw new Error("El preset debe ser un objeto.");
+  if (typeof raw.id !== "string" || raw.id === "") {
+    throw new Error("“id” debe ser un texto.");
+  }
+  if (typeof raw.label !== "string") {
+    throw new Error("“label” debe ser un texto.");
+  }
+  if (isBuiltinPreset(raw.id)) return PRESETS[raw.id];
+  if (raw.delivery !== undefined && !isObject(raw.delivery)) {
+    throw new Error("“delivery” debe ser un objeto.");
+  }
+
+  const cfg = validateConfig({
+    puffsPerMin: raw.puffsPerMin,
+    initial: raw.initial,
+    params: raw.params,
+    schedule: raw.schedule,
+    ...(raw.delivery && {
+      route: raw.delivery.route,
+      patchOn: raw.delivery.patchOn,
+      patchDose: raw.delivery.patchDose,
+      autoPuff: raw.delivery.autoPuff,
+      drugs: raw.delivery.drugs,
+    }),
+  });
+  return {
+    id: raw.id,
+    label: raw.label.trim() || "Sin nombre",
+    description: typeof raw.description === "string" ? raw.description : "",
+    builtin: false,
+    puffsPerMin: cfg.puffsPerMin,
+    initial: cfg.initial,
+    ...(raw.params !== undefined && { params: cfg.params }),
+    ...(raw.schedule !== undefined && { schedule: cfg.schedule }),
+    ...(raw.delivery !== undefined && { delivery: deliveryOf(cfg) }),
+  };
+}
+
+/** Incluye los de serie (solo para conservar el orden: se leen del código). */
+export function serializeLibrary(library: readonly PresetDef[]): string {
+  return JSON.stringify(
+    { version: LIBRARY_VERSION, presets: library },
+    null,
+    2,
+  );
+}
+
+/** Presets de un archivo (los de serie, del código); lanza Error con todos los problemas. */
+export function parseLibrary(text: string): PresetDef[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("El archivo no es JSON válido.");
+  }
+  const list = isObject(data) ? data.presets : data;
+  if (!Array.isArray(list)) {
+    throw new Error("Falta la lista “presets”.");
+  }
+
+  const errors: string[] = [];
+  const out: PresetDef[] = [];
+  list.forEach((raw: unknown, i) => {
+    try {
+      out.push(validatePreset(raw));
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      errors.push(`Preset ${i + 1}: ${msg.replace(/\n/g, "; ")}`);
+    }
+  });
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  return out;
+}
+
+/** Añade los importados; si un id ya existe, entra como copia con id nuevo. */
+export function mergeLibrary(
+  library: readonly PresetDef[],
+  imported: readonly PresetDef[],
+): PresetDef[] {
+  const out = [...library];
+  for (const p of imported) {
+    if (p.builtin) continue;
+    out.push(out.some((q) => q.id === p.id) ? { ...p, id: newPresetId() } : p);
+  }
+  return out;
+}
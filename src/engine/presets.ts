@@ -0,0 +1,83 @@
+/**
+ * Escenarios de “Modo clase”: estado inicial + frecuencia de puffs y,
+ * opcionalmente, parámetros, pauta y administración (vía, fármacos). Los tres de serie son de solo lectura;
+ * el resto los crea el docente (ver presetLibrary).
+ */
+import {
+  BASAL_POOL,
+  normalizePool,
+  type ModelParams,
+  type ReceptorPool,
+} from "./model";
+import type { DrugRegimen } from "./drugs";
+import type { DoseRoute } from "./routes";
+import type { DoseEvent } from "./schedule";
+
+export type BuiltinPreset = "puff" | "repetido" | "abstinencia";
+
+/** Id de una entrada de la biblioteca: uno de serie o `user-…`. */
+export type Preset = string;
+
+/** Estado de partida de un escenario (el resto se calcula al primer paso). */
+export type InitialState = {
+  nicotine: number;
+  poolDA: ReceptorPool;
+  poolGABA: ReceptorPool;
+};
+
+export type PresetDef = {
+  id: Preset;
+  label: string;
+  description: string;
+  builtin: boolean; // de serie: no se edita ni se borra
+  puffsPerMin: number;
+  initial: InitialState;
+  params?: ModelParams; // sin params se conservan los actuales
+  schedule?: DoseEvent[]; // sin pauta se conserva la actual
+  delivery?: PresetDelivery; // sin ella se conservan vía, parche y fármacos
+};
+
+/** Vía de los puffs, parche, fármacos y auto-puff de un escenario. */
+export type PresetDelivery = {
+  route: DoseRoute;
+  patchOn: boolean;
+  patchDose: number;
+  autoPuff: boolean;
+  drugs: DrugRegimen;
+};
+
+export const PRESET_IDS: BuiltinPreset[] = ["puff", "repetido", "abstinencia"];
+
+export const PRESETS: Record<BuiltinPreset, PresetDef> = {
+  puff: {
+    id: "puff",
+    label: "Puff único",
+    description: "Un puff aislado: pico breve de DA y desensibilización.",
+    builtin: true,
+    puffsPerMin: 0,
+    initial: { nicotine: 0, poolDA: BASAL_POOL, poolGABA: BASAL_POOL },
+  },
+  repetido: {
+    id: "repetido",
+    label: "Puffs repetidos",
+    description: "Puffs aleatorios frecuentes: acumulación y DA sostenida.",
+    builtin: true,
+    puffsPerMin: 0.18,
+    initial: { nicotine: 0, poolDA: BASAL_POOL, poolGABA: BASAL_POOL },
+  },
+  abstinencia: {
+    id: "abstinencia",
+    label: "Abstinencia",
+    description: "Sin nicotina y con receptores aún desensibilizados.",
+    builtin: true,
+    puffsPerMin: 0,
+    initial: {
+      nicotine: 0.02,
+      poolDA: normalizePool({ basal: 0.35, activado: 0.05, desens: 0.6 }),
+      poolGABA: normalizePool({ basal: 0.4, activado: 0.05, desens: 0.55 }),
+    },
+  },
+};
+
+export const isBuiltinPreset = (id: Preset): id is BuiltinPreset =>
+  (PRESET_IDS as Preset[]).includes(id);
@@ -0,0 +1,27 @@
+/**
+ * PRNG sembrable (mulberry32): misma semilla → misma secuencia de puffs.
+ * Suficiente para docencia; no es criptográfico.
+ */
+
+export type Rng = () => number;
+
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(a ^ (a >>> 15), 1 | a);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Semilla nueva (entero positivo de 32 bits) para el botón “nueva”. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+/** ¿Hay puff en este paso? Proceso de Poisson discretizado (p ≈ λ·dt). */
+export function randomPuff(rng: Rng, puffsPerMin: number, dtMin: number) {
+  const prob = Math.max(0, Math.min(1, puffsPerMin * dtMin));
+  return rng() < prob;
+}
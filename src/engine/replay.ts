@@ -0,0 +1,227 @@
+/**
+ * Grabación de una sesión interactiva: configuración de partida + acciones
+ * del usuario con su minuto simulado. Con el paso fijo y la semilla, volver a
+ * aplicar las acciones en los mismos minutos reproduce la misma simulación
+ * (a cualquier velocidad).
+ */
+import { DEFAULT_CONFIG, validateConfig, type SessionConfig } from "./config";
+import type { ModelParams } from "./model";
+import { validatePreset } from "./presetLibrary";
+import type { PresetDef } from "./presets";
+
+export const REPLAY_VERSION = 1;
+
+/** Ajustes que se cambian en marcha sin reiniciar el escenario. */
+export type LiveSettings = Pick<
+  SessionConfig,
+  | "puffsPerMin"
+  | "schedule"
+  | "route"
+  | "patchOn"
+  | "patchDose"
+  | "autoPuff"
+  | "drugs"
+>;
+
+const SETTING_KEYS: (keyof LiveSettings)[] = [
+  "puffsPerMin",
+  "schedule",
+  "route",
+  "patchOn",
+  "patchDose",
+  "autoPuff",
+  "drugs",
+];
+
+export type ReplayAction =
+  | { type: "puff" }
+  | { type: "preset"; preset: PresetDef } // completo: la grabación no depende de la biblioteca
+  // `quiet`: valor intermedio de un slider; `from`: inicio del arrastre
+  | { type: "params"; params: ModelParams; from?: ModelParams; quiet?: boolean }
+  | { type: "settings"; changes: Partial<LiveSettings> }
+  | { type: "seed"; seed: number }
+  | { type: "load"; config: SessionConfig }
+  | { type: "reset" }
+  | { type: "advance"; minutes: number }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "rewind"; to: number } // “Continuar desde aquí”
+  | { type: "note"; at: number; text: string }
+  | { type: "removeEvent"; at: number; label: string }; // borrar del registro
+
+export type ReplayEntry = { t: number; action: ReplayAction };
+
+export type Replay = {
+  version: number;
+  app: string;
+  recordedAt: string;
+  config: SessionConfig; // escenario al empezar a grabar (t = 0)
+  entries: ReplayEntry[]; // en orden de grabación (t puede retroceder)
+  endT: number; // minuto simulado al detener la grabación
+};
+
+export function createReplay(
+  config: SessionConfig,
+  entries: ReplayEntry[],
+  endT: number,
+): Replay {
+  return {
+    version: REPLAY_VERSION,
+    app: "nicotina_app",
+    recordedAt: new Date().toISOString(),
+    config,
+    entries,
+    endT,
+  };
+}
+
+/** Texto corto para el reproductor (“Puff”, “Preset: puff”…). */
+export function describeAction(a: ReplayAction): string {
+  switch (a.type) {
+    case "puff":
+      return "Puff";
+    case "preset":
+      return `Preset: ${a.preset.label}`;
+    case "params":
+      return "Parámetros";
+    case "settings":
+      return `Ajustes: ${Object.keys(a.changes).join(", ")}`;
+    case "seed":
+      return `Semilla ${a.seed}`;
+    case "load":
+      return "Cargar escenario";
+    case "reset":
+      return "Reset";
+    case "advance":
+      return `+${a.minutes} min`;
+    case "pause":
+      return "Pausa";
+    case "resume":
+      return "Reanudar";
+    case "rewind":
+      return `Continuar desde ${a.to.toFixed(1)} min`;
+    case "note":
+      return `Nota: ${a.text}`;
+    case "removeEvent":
+      return `Quitar del registro: ${a.label}`;
+  }
+}
+
+// ---------- Archivo JSON ----------
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isTime = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+// Valida una acción reutilizando la validación de la configuración
+function validateAction(raw: Raw): ReplayAction {
+  switch (raw.type) {
+    case "puff":
+    case "reset":
+    case "pause":
+    case "resume":
+      return { type: raw.type };
+    case "preset":
+      return { type: "preset", preset: validatePreset(raw.preset) };
+    case "params":
+      return {
+        type: "params",
+        params: validateConfig({ params: raw.params }).params,
+        ...(raw.from !== undefined && {
+          from: validateConfig({ params: raw.from }).params,
+        }),
+        ...(raw.quiet === true && { quiet: true }),
+      };
+    case "settings": {
+      if (!isObject(raw.changes)) throw new Error("faltan los cambios.");
+      const cfg = validateConfig(raw.changes);
+      const changes: Partial<LiveSettings> = {};
+      for (const key of SETTING_KEYS) {
+        if (key in raw.changes) Object.assign(changes, { [key]: cfg[key] });
+      }
+      return { type: "settings", changes };
+    }
+    case "seed":
+      return { type: "seed", seed: validateConfig({ seed: raw.seed }).seed };
+    case "load":
+      return { type: "load", config: validateConfig(raw.config) };
+    case "advance":
+      if (!isTime(raw.minutes)) throw new Error("minutos no válidos.");
+      return { type: "advance", minutes: raw.minutes };
+    case "rewind":
+      if (!isTime(raw.to)) throw new Error("minuto de destino no válido.");
+      return { type: "rewind", to: raw.to };
+    case "note":
+      if (!isTime(raw.at) || typeof raw.text !== "string") {
+        throw new Error("nota sin minuto o sin texto.");
+      }
+      return { type: "note", at: raw.at, text: raw.text };
+    case "removeEvent":
+      if (!isTime(raw.at) || typeof raw.label !== "string") {
+        throw new Error("evento sin minuto o sin texto.");
+      }
+      return { type: "removeEvent", at: raw.at, label: raw.label };
+    default:
+      throw new Error(`acción desconocida “${String(raw.type)}”.`);
+  }
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify({ ...replay, version: REPLAY_VERSION }, null, 2);
+}
+
+/** Lanza Error con todos los problemas encontrados, uno por línea. */
+export function parseReplay(text: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("La grabación no es JSON válido.");
+  }
+  if (!isObject(data) || !Array.isArray(data.entries)) {
+    throw new Error("La grabación debe ser un objeto con “entries”.");
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(
+      `Versión ${String(data.version)} no soportada (se espera ${REPLAY_VERSION}).`,
+    );
+  }
+
+  const errors: string[] = [];
+  let config = DEFAULT_CONFIG;
+  try {
+    config = validateConfig(data.config);
+  } catch (e) {
+    errors.push(`config: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const entries: ReplayEntry[] = [];
+  data.entries.forEach((raw: unknown, i) => {
+    try {
+      if (!isObject(raw) || !isTime(raw.t) || !isObject(raw.action)) {
+        throw new Error("debe tener “t” ≥ 0 y “action”.");
+      }
+      entries.push({ t: raw.t, action: validateAction(raw.action) });
+    } catch (e) {
+      errors.push(
+        `entries[${i}]: ${e instanceof Error ? e.message.replace(/\n/g, "; ") : String(e)}`,
+      );
+    }
+  });
+
+  if (!isTime(data.endT)) errors.push("“endT” debe ser un minuto ≥ 0.");
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+
+  return {
+    version: REPLAY_VERSION,
+    app: typeof data.app === "string" ? data.app : "nicotina_app",
+    recordedAt: typeof data.recordedAt === "string" ? data.recordedAt : "",
+    config,
+    entries,
+    endT: data.endT as number,
+  };
+}
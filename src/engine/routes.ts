@@ -0,0 +1,121 @@
+/**
+ * Vías de administración: cada una con su perfil de absorción hacia el
+ * proxy de nicotina.
+ * - cigarrillo: bolo (entra todo en el paso)
+ * - vapeo: subida rápida (primer orden, t½ corto)
+ * - chicle: absorción bucal lenta (primer orden, t½ largo)
+ * - parche: liberación continua de orden cero (on/off + dosis/h)
+ */
+import type { DrugRegimen } from "./drugs";
+
+export type DeliveryRoute = "cigarette" | "vape" | "gum" | "patch";
+
+/** Vías con dosis discretas (puff / calada / pieza). */
+export type DoseRoute = Exclude<DeliveryRoute, "patch">;
+
+export type RouteProfile = {
+  label: string;
+  doseLabel: string; // texto del botón de dosis
+  kind: "bolus" | "firstOrder" | "zeroOrder";
+  absorptionHalfLifeMin: number; // solo primer orden
+  defaultDose: number; // incremento de nicotina (proxy) por dosis
+  description: string;
+};
+
+export const ROUTES: Record<DeliveryRoute, RouteProfile> = {
+  cigarette: {
+    label: "Cigarrillo",
+    doseLabel: "Puff (+ nicotina)",
+    kind: "bolus",
+    absorptionHalfLifeMin: 0,
+    defaultDose: 0.25,
+    description: "Bolo: llega al cerebro en segundos → picos marcados.",
+  },
+  vape: {
+    label: "Vapeo",
+    doseLabel: "Calada vape",
+    kind: "firstOrder",
+    absorptionHalfLifeMin: 2,
+    defaultDose: 0.2,
+    description: "Subida rápida (t½ absorción ≈ 2 min), algo menos abrupta.",
+  },
+  gum: {
+    label: "Chicle",
+    doseLabel: "Chicle (pieza)",
+    kind: "firstOrder",
+    absorptionHalfLifeMin: 15,
+    defaultDose: 0.3,
+    description: "Absorción bucal lenta (t½ ≈ 15 min): pico bajo y tardío.",
+  },
+  patch: {
+    label: "Parche",
+    doseLabel: "",
+    kind: "zeroOrder",
+    absorptionHalfLifeMin: 0,
+    defaultDose: 0.1,
+    description: "Orden cero: meseta estable, poca recompensa DA.",
+  },
+};
+
+export const DOSE_ROUTES: DoseRoute[] = ["cigarette", "vape", "gum"];
+
+/** Nicotina pendiente de absorber por vía (depósito bucal/pulmonar). */
+export type Depots = Record<DoseRoute, number>;
+
+export const EMPTY_DEPOTS: Depots = { cigarette: 0, vape: 0, gum: 0 };
+
+/** Entradas de un paso: dosis discreta por la vía elegida + parche + fármacos. */
+export type Delivery = {
+  route: DoseRoute;
+  patchRate: number; // nicotina (proxy) por hora; 0 = parche retirado
+  drugs?: DrugRegimen; // sin pauta = sin tomas (los niveles siguen bajando)
+};
+
+export const DEFAULT_DELIVERY: Delivery = { route: "cigarette", patchRate: 0 };
+
+/**
+ * Aplica la dosis del paso y la absorción de los depósitos.
+ * Devuelve la nicotina que entra al proxy durante `dtMin`.
+ * Con `lungKaMin > 0` (modo PK) el cigarrillo también pasa por un
+ * compartimento de absorción pulmonar con esa constante (1/min).
+ */
+export function deliver(
+  depots: Depots,
+  dose: number,
+  delivery: Delivery,
+  dtMin: number,
+  lungKaMin = 0,
+): { depots: Depots; input: number } {
+  const next = { ...depots };
+  let input = 0;
+
+  if (dose > 0) {
+    const viaDepot =
+      ROUTES[delivery.route].kind === "firstOrder" ||
+      (delivery.route === "cigarette" && lungKaMin > 0);
+    if (viaDepot) {
+      next[delivery.route] += dose;
+    } else {
+      input += dose;
+    }
+  }
+
+  if (lungKaMin > 0 && next.cigarette > 0) {
+    const absorbed = next.cigarette * (1 - Math.exp(-lungKaMin * dtMin));
+    next.cigarette -= absorbed;
+    input += absorbed;
+  }
+
+  for (const r of DOSE_ROUTES) {
+    const { kind, absorptionHalfLifeMin } = ROUTES[r];
+    if (kind !== "firstOrder" || next[r] <= 0) continue;
+    const absorbed =
+      next[r] * (1 - Math.pow(0.5, dtMin / absorptionHalfLifeMin));
+    next[r] -= absorbed;
+    input += absorbed;
+  }
+
+  input += (delivery.patchRate / 60) * dtMin;
+
+  return { depots: next, input };
+}
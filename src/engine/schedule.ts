@@ -0,0 +1,159 @@
+/**
+ * Pauta de dosificación explícita: lista de eventos (min, dosis) ordenada.
+ * La dosis es el incremento del proxy de nicotina (0–1); un puff = puffDose.
+ */
+import { lowerBound } from "./math";
+
+export type DoseEvent = { t: number; dose: number };
+
+/** Siempre ordenada por `t` (ver `normalizeSchedule`). */
+export type DosingSchedule = readonly DoseEvent[];
+
+export const SCHEDULE_VERSION = 1;
+
+export function normalizeSchedule(events: readonly DoseEvent[]): DoseEvent[] {
+  return events
+    .filter((e) => Number.isFinite(e.t) && e.t >= 0 && e.dose > 0)
+    .map((e) => ({ t: e.t, dose: Math.min(1, e.dose) }))
+    .sort((a, b) => a.t - b.t);
+}
+
+/** Suma de dosis programadas en [t0, t1). */
+export function doseBetween(
+  schedule: DosingSchedule,
+  t0: number,
+  t1: number,
+): number {
+  let dose = 0;
+  for (let i = lowerBound(schedule, t0); i < schedule.length; i++) {
+    if (schedule[i].t >= t1) break;
+    dose += schedule[i].dose;
+  }
+  return dose;
+}
+
+/** Eventos dentro de [t0, t1] (para dibujar ticks en el timeline). */
+export function eventsBetween(
+  schedule: DosingSchedule,
+  t0: number,
+  t1: number,
+): DoseEvent[] {
+  const out: DoseEvent[] = [];
+  for (let i = lowerBound(schedule, t0); i < schedule.length; i++) {
+    if (schedule[i].t > t1) break;
+    out.push(schedule[i]);
+  }
+  return out;
+}
+
+export type CigaretteBout = {
+  startMin: number;
+  endMin: number;
+  everyMin: number; // un cigarrillo cada N min
+  puffsPerCig: number; // caladas por cigarrillo
+  puffGapMin: number; // separación entre caladas
+  dosePerPuff: number;
+};
+
+/** Cigarrillos por defecto con la dosis por puff actual (params.puffDose). */
+export function defaultBout(puffDose: number): CigaretteBout {
+  return {
+    startMin: 0,
+    endMin: 360,
+    everyMin: 45,
+    puffsPerCig: 10,
+    puffGapMin: 0.5,
+    dosePerPuff: puffDose / 10, // ≈ 1 puff manual por cigarrillo
+  };
+}
+
+/** “Un cigarrillo cada 45 min de 8:00 a 14:00” → eventos de calada. */
+export function cigaretteBout(b: CigaretteBout): DoseEvent[] {
+  const out: DoseEvent[] = [];
+  if (b.everyMin <= 0 || b.puffsPerCig <= 0) return out;
+  for (let c = b.startMin; c <= b.endMin; c += b.everyMin) {
+    for (let i = 0; i < b.puffsPerCig; i++) {
+      out.push({ t: c + i * b.puffGapMin, dose: b.dosePerPuff });
+    }
+  }
+  return out;
+}
+
+export const MIN_PER_DAY = 24 * 60;
+
+/** Jornada de fumador: vigilia en minutos desde medianoche. */
+export type WakingDay = {
+  cigsPerDay: number;
+  wakeMin: number; // primer cigarrillo
+  sleepMin: number; // último cigarrillo como muy tarde
+};
+
+/** `days` días seguidos con los cigarrillos repartidos por igual en la vigilia. */
+export function wakingSchedule(
+  day: WakingDay,
+  days: number,
+  puffDose: number,
+): DoseEvent[] {
+  const out: DoseEvent[] = [];
+  if (day.cigsPerDay <= 0) return out;
+  const awake = Math.max(0, day.sleepMin - day.wakeMin);
+  const everyMin =
+    day.cigsPerDay > 1 ? awake / (day.cigsPerDay - 1) : awake + 1;
+  for (let d = 0; d < days; d++) {
+    const start = d * MIN_PER_DAY + day.wakeMin;
+    out.push(
+      ...cigaretteBout({
+        ...defaultBout(puffDose),
+        startMin: start,
+        endMin: start + awake + 1e-6, // que el redondeo no pierda el último
+        everyMin,
+      }),
+    );
+  }
+  return normalizeSchedule(out);
+}
+
+// ---------- Import / export ----------
+
+export function serializeSchedule(schedule: DosingSchedule): string {
+  return JSON.stringify(
+    { version: SCHEDULE_VERSION, events: schedule },
+    null,
+    2,
+  );
+}
+
+/** Valida una lista cruda de eventos; lanza Error con el primer problema. */
+export function validateEvents(raw: unknown): DoseEvent[] {
+  if (!Array.isArray(raw)) {
+    throw new Error("Falta la lista “events” de la pauta.");
+  }
+
+  const events = raw.map((e, i) => {
+    const t = (e as DoseEvent | null)?.t;
+    const dose = (e as DoseEvent | null)?.dose;
+    if (typeof t !== "number" || !Number.isFinite(t) || t < 0) {
+      throw new Error(`Evento ${i + 1}: “t” debe ser un número ≥ 0 (min).`);
+    }
+    if (typeof dose !== "number" || !(dose > 0) || dose > 1) {
+      throw new Error(`Evento ${i + 1}: “dose” debe estar entre 0 y 1.`);
+    }
+    return { t, dose };
+  });
+
+  return normalizeSchedule(events);
+}
+
+/** Acepta `{ version, events }` o un array de eventos; lanza Error si no es válido. */
+export function parseSchedule(text: string): DoseEvent[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("El archivo no es JSON válido.");
+  }
+
+  return validateEvents(
+    Array.isArray(data) ? data : (data as { events?: unknown } | null)?.events,
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Estado completo de una sesión (escenario + simulación + historial). Es la
+ * unidad de deshacer/rehacer y lo que se autoguarda en el navegador. Al
+ * guardarse el historial se compacta: instantáneas cada SAVED_DT_MIN en
+ * columnas redondeadas, y el trace se reconstruye de ellas al cargar.
+ */
+import { validateConfig, type SessionConfig } from "./config";
+import {
+  INITIAL_DETECTOR,
+  type DetectorState,
+  type SimEvent,
+  type SimEventKind,
+} from "./events";
+import { lowerBound } from "./math";
+import {
+  INITIAL_STATE,
+  toTracePoint,
+  type SimState,
+  type TracePoint,
+} from "./model";
+
+export const SESSION_VERSION = 2;
+
+/** Resolución del historial guardado (min). */
+export const SAVED_DT_MIN = 1;
+
+export type SessionSnapshot = {
+  config: SessionConfig;
+  sim: SimState;
+  trace: TracePoint[];
+  snapshots: SimState[]; // instantáneas para rebobinar
+  events: SimEvent[];
+  desensStartDA: number | null;
+  desensStartG: number | null;
+  detector: DetectorState;
+};
+
+const EVENT_KINDS: SimEventKind[] = [
+  "alpha7",
+  "desens",
+  "recover",
+  "daPeak",
+  "param",
+  "note",
+];
+
+// Mismas claves y tipos que la plantilla (recursivo en objetos anidados)
+function sameShape(template: unknown, v: unknown): boolean {
+  if (typeof template !== "object" || template === null) {
+    return (
+      typeof v === typeof template && (typeof v !== "number" || isFinite(v))
+    );
+  }
+  if (typeof v !== "object" || v === null) return false;
+  return Object.entries(template).every(([k, tv]) =>
+    sameShape(tv, (v as Record<string, unknown>)[k]),
+  );
+}
+
+const isEvent = (e: unknown): e is SimEvent =>
+  sameShape({ t: 0, label: "", short: "" }, e) &&
+  EVENT_KINDS.includes((e as SimEvent).kind);
+
+const startMin = (v: unknown) =>
+  typeof v === "number" && isFinite(v) ? v : null;
+
+type Leaf = number | boolean;
+
+// 4 decimales bastan para dibujar y rebobinar (t incluido)
+const round = (v: number) => Math.round(v * 1e4) / 1e4;
+
+// Una instantánea por intervalo de SAVED_DT_MIN, más la última
+function thin(states: readonly SimState[]): SimState[] {
+  let lastBucket = NaN;
+  return states.filter((s, i) => {
+    const bucket = Math.floor(s.t / SAVED_DT_MIN);
+    if (bucket === lastBucket && i < states.length - 1) return false;
+    lastBucket = bucket;
+    return true;
+  });
+}
+
+// Columnas por hoja del estado: "poolDA.desens" → [v0, v1, …]
+function toColumns(states: readonly SimState[]): Record<string, Leaf[]> {
+  const cols: Record<string, Leaf[]> = {};
+  const walk = (v: unknown, path: string) => {
+    if (typeof v === "object" && v !== null) {
+      for (const [k, x] of Object.entries(v)) {
+        walk(x, path ? `${path}.${k}` : k);
+      }
+    } else {
+      (cols[path] ??= []).push(typeof v === "number" ? round(v) : Boolean(v));
+    }
+  };
+  for (const s of states) walk(s, "");
+  return cols;
+}
+
+// Inverso de toColumns con INITIAL_STATE de plantilla (sin validar)
+function fromColumns(raw: unknown): unknown[] {
+  if (typeof raw !== "object" || raw === null) return [null];
+  const cols = raw as Record<string, unknown>;
+  const at = (path: string, i: number) => {
+    const col = cols[path];
+    return Array.isArray(col) ? col[i] : undefined;
+  };
+  const build = (tpl: unknown, path: string, i: number): unknown =>
+    typeof tpl === "object" && tpl !== null
+      ? Object.fromEntries(
+          Object.entries(tpl).map(([k, v]) => [
+            k,
+            build(v, path ? `${path}.${k}` : k, i),
+          ]),
+        )
+      : at(path, i);
+  const n = Array.isArray(cols.t) ? cols.t.length : 0;
+  return Array.from({ length: n }, (_, i) => build(INITIAL_STATE, "", i));
+}
+
+/**
+ * El detector no se guarda (Infinity no es JSON): se retoma desde el final.
+ * Del trace solo se guardan los minutos con puff.
+ */
+export function serializeSession(s: SessionSnapshot): string {
+  return JSON.stringify({
+    version: SESSION_VERSION,
+    config: s.config,
+    sim: s.sim,
+    history: toColumns(thin(s.snapshots)),
+    puffs: s.trace.filter((p) => p.puff).map((p) => p.t),
+    events: s.events,
+    desensStartDA: s.desensStartDA,
+    desensStartG: s.desensStartG,
+  });
+}
+
+/** Lanza Error si el JSON no es una sesión válida de esta versión. */
+export function parseSession(text: string): SessionSnapshot {
+  const data: unknown = JSON.parse(text);
+  if (typeof data !== "object" || data === null) {
+    throw new Error("La sesión guardada no es un objeto.");
+  }
+  const raw = data as Record<string, unknown>;
+  if (raw.version !== SESSION_VERSION) {
+    throw new Error(`Versión de sesión ${String(raw.version)} no soportada.`);
+  }
+  if (!sameShape(INITIAL_STATE, raw.sim)) {
+    throw new Error("Estado de simulación no válido.");
+  }
+  const list = <T>(v: unknown, ok: (x: unknown) => boolean, what: string) => {
+    if (!Array.isArray(v) || !v.every(ok)) {
+      throw new Error(`Historial no válido (${what}).`);
+    }
+    return v as T[];
+  };
+  const snapshots = list<SimState>(
+    fromColumns(raw.history),
+    (s) => sameShape(INITIAL_STATE, s),
+    "instantáneas",
+  );
+  const puffs = list<number>(
+    raw.puffs,
+    (t) => typeof t === "number" && isFinite(t),
+    "puffs",
+  );
+
+  // Cada puff marca la instantánea guardada más cercana
+  const trace: TracePoint[] = snapshots.map((s) => toTracePoint(s, false));
+  for (const t of puffs) {
+    const i = Math.min(trace.length - 1, lowerBound(trace, t));
+    if (i >= 0) trace[i] = { ...trace[i], puff: true };
+  }
+
+  return {
+    config: validateConfig(raw.config),
+    sim: raw.sim as SimState,
+    trace,
+    snapshots,
+    events: list<SimEvent>(raw.events, isEvent, "eventos"),
+    desensStartDA: startMin(raw.desensStartDA),
+    desensStartG: startMin(raw.desensStartG),
+    detector: { ...INITIAL_DETECTOR, last: trace.at(-1) ?? null },
+  };
+}
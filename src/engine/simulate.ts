@@ -0,0 +1,95 @@
+import {
+  INITIAL_STATE,
+  step,
+  toTracePoint,
+  type ModelParams,
+  type SimState,
+  type TracePoint,
+} from "./model";
+import { createRng, randomPuff } from "./random";
+import { DEFAULT_DELIVERY, type Delivery } from "./routes";
+import {
+  doseBetween,
+  normalizeSchedule,
+  type DoseEvent,
+  type DosingSchedule,
+} from "./schedule";
+
+/**
+ * Puffs aleatorios reproducibles: misma semilla + mismos parámetros → mismos
+ * tiempos. Usa la misma discretización por paso que el loop en vivo.
+ */
+export function poissonSchedule(
+  seed: number,
+  puffsPerMin: number,
+  durationMin: number,
+  dtMin: number,
+  t0: number,
+  dose: number,
+): DoseEvent[] {
+  const rng = createRng(seed);
+  const steps = Math.max(0, Math.round(durationMin / dtMin));
+  const out: DoseEvent[] = [];
+  for (let i = 0; i < steps; i++) {
+    if (randomPuff(rng, puffsPerMin, dtMin)) {
+      out.push({ t: t0 + i * dtMin, dose });
+    }
+  }
+  return out;
+}
+
+export type SimResult = {
+  final: SimState;
+  trace: TracePoint[];
+  states: SimState[]; // estado tras cada paso (instantáneas para rebobinar)
+};
+
+/**
+ * Avanza `steps` pasos de `dtMin`; `doseAt(t0, estado)` da la dosis al inicio
+ * de cada paso. Base común del loop en vivo y de `simulate`.
+ */
+export function advance(
+  state: SimState,
+  steps: number,
+  dtMin: number,
+  params: ModelParams,
+  doseAt: (t0: number, s: SimState) => number,
+  delivery: Delivery = DEFAULT_DELIVERY,
+): SimResult {
+  const trace: TracePoint[] = [];
+  const states: SimState[] = [];
+  let s = state;
+  for (let i = 0; i < steps; i++) {
+    const dose = doseAt(s.t, s);
+    s = step(s, { dtMin, dose, delivery }, params);
+    trace.push(toTracePoint(s, dose > 0));
+    states.push(s);
+  }
+  return { final: s, trace, states };
+}
+
+/**
+ * Corre la simulación offline durante `durationMin` con paso fijo `dtMin`.
+ * Un evento programado en `t` se aplica en el paso cuyo intervalo [t0, t0+dt)
+ * lo contiene.
+ */
+export function simulate(
+  schedule: DosingSchedule,
+  params: ModelParams,
+  durationMin: number,
+  dtMin = 1,
+  initial: SimState = INITIAL_STATE,
+  delivery: Delivery = DEFAULT_DELIVERY,
+): SimResult {
+  const events = normalizeSchedule(schedule);
+  const steps = Math.max(0, Math.round(durationMin / dtMin));
+
+  return advance(
+    initial,
+    steps,
+    dtMin,
+    params,
+    (t0) => doseBetween(events, t0, t0 + dtMin),
+    delivery,
+  );
+}
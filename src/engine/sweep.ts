@@ -0,0 +1,163 @@
+/**
+ * Barrido de parámetros: una o dos claves de ModelParams recorren un rango,
+ * se simula offline cada combinación (misma pauta, semilla y estado inicial)
+ * y se resume con métricas escalares para curvas o mapa de calor.
+ */
+import { runScenario, type CompareRun } from "./compare";
+import { routeDose, type ModelParams, type TracePoint } from "./model";
+import { PARAM_SPECS, type NumericParamKey } from "./paramSpec";
+import { ROUTES, type DoseRoute } from "./routes";
+
+export type SweepAxis = {
+  key: NumericParamKey;
+  from: number;
+  to: number;
+  steps: number; // nº de valores (≥ 2)
+};
+
+export type SweepMetric = "peakDA" | "aucDA" | "minGABA" | "timeToHalfDesens";
+
+export const SWEEP_METRICS: { id: SweepMetric; label: string; unit: string }[] =
+  [
+    { id: "peakDA", label: "Pico DA", unit: "fracción" },
+    { id: "aucDA", label: "AUC DA", unit: "·min" },
+    { id: "minGABA", label: "GABA mínimo", unit: "fracción" },
+    {
+      id: "timeToHalfDesens",
+      label: "t hasta 50 % desens. (DA)",
+      unit: "min",
+    },
+  ];
+
+/** Métricas de una corrida (null = no llega a ocurrir en la duración). */
+export type SweepCell = Record<SweepMetric, number | null>;
+
+/** “puff”: un único puff en t0; “current”: pauta y frecuencia actuales. */
+export type SweepStimulus = "puff" | "current";
+
+export type SweepResult = {
+  x: SweepAxis;
+  y: SweepAxis | null;
+  xs: number[];
+  ys: number[]; // [NaN] sin segundo eje
+  cells: SweepCell[][]; // [iy][ix]
+};
+
+export const MAX_SWEEP_STEPS = 12;
+
+/** Parámetros que solo tienen efecto con una vía concreta. */
+export const ROUTE_ONLY_PARAMS: Partial<Record<NumericParamKey, DoseRoute>> = {
+  puffDose: "cigarette",
+};
+
+/** Motivo por el que no se puede barrer el eje (null si vale). */
+export function sweepAxisError(
+  axis: SweepAxis,
+  route: DoseRoute,
+): string | null {
+  const spec = PARAM_SPECS.find((p) => p.key === axis.key);
+  if (!spec) return `Parámetro desconocido: ${axis.key}.`;
+  const only = ROUTE_ONLY_PARAMS[axis.key];
+  if (only && only !== route) {
+    return `${spec.label}: solo afecta a la vía ${ROUTES[only].label.toLowerCase()}.`;
+  }
+  const inRange = (v: number) =>
+    Number.isFinite(v) && v >= spec.min && v <= spec.max;
+  if (!inRange(axis.from) || !inRange(axis.to)) {
+    return `${spec.label}: el rango debe estar entre ${spec.min} y ${spec.max}.`;
+  }
+  if (axis.from >= axis.to) {
+    return `${spec.label}: “de” debe ser menor que “a”.`;
+  }
+  if (
+    !Number.isInteger(axis.steps) ||
+    axis.steps < 2 ||
+    axis.steps > MAX_SWEEP_STEPS
+  ) {
+    return `${spec.label}: entre 2 y ${MAX_SWEEP_STEPS} valores.`;
+  }
+  return null;
+}
+
+export function sweepValues(axis: SweepAxis): number[] {
+  const n = Math.max(2, Math.min(MAX_SWEEP_STEPS, Math.round(axis.steps)));
+  return Array.from(
+    { length: n },
+    (_, i) => axis.from + ((axis.to - axis.from) * i) / (n - 1),
+  );
+}
+
+/** Minutos desde t0 hasta que el pool DA llega a `level` desensibilizado. */
+export function timeToDesens(
+  trace: readonly TracePoint[],
+  t0: number,
+  level = 0.5,
+): number | null {
+  const p = trace.find((q) => q.poolDA.desens >= level);
+  return p ? p.t - t0 : null;
+}
+
+/**
+ * Una fila del barrido: todos los valores de x con y = `vy` (sin segundo
+ * eje `vy` se ignora). El panel las calcula de una en una para no
+ * bloquear la UI.
+ */
+export function sweepRow(
+  params: ModelParams,
+  puffsPerMin: number,
+  run: CompareRun,
+  stimulus: SweepStimulus,
+  x: SweepAxis,
+  y: SweepAxis | null,
+  vy: number,
+): SweepCell[] {
+  const t0 = run.initial.t;
+  return sweepValues(x).map((vx) => {
+    const p: ModelParams = {
+      ...params,
+      [x.key]: vx,
+      ...(y && { [y.key]: vy }),
+    };
+    const { trace, summary } = runScenario(
+      {
+        id: 0,
+        label: "",
+        params: p,
+        puffsPerMin: stimulus === "puff" ? 0 : puffsPerMin,
+      },
+      stimulus === "puff"
+        ? {
+            ...run,
+            schedule: [{ t: t0, dose: routeDose(run.delivery.route, p) }],
+          }
+        : run,
+    );
+    return {
+      peakDA: summary.peakDA,
+      aucDA: summary.aucDA,
+      minGABA: summary.minGABA,
+      timeToHalfDesens: timeToDesens(trace, t0),
+    };
+  });
+}
+
+/** CSV con una fila por combinación (para hoja de cálculo). */
+export function sweepToCsv(r: SweepResult): string {
+  const head = [
+    r.x.key,
+    ...(r.y ? [r.y.key] : []),
+    ...SWEEP_METRICS.map((m) => m.id),
+  ];
+  const rows = r.cells.flatMap((row, iy) =>
+    row.map((cell, ix) =>
+      [
+        r.xs[ix],
+        ...(r.y ? [r.ys[iy]] : []),
+        ...SWEEP_METRICS.map((m) => cell[m.id]),
+      ]
+        .map((v) => (v == null ? "" : String(+v.toFixed(6))))
+        .join(","),
+    ),
+  );
+  return [head.join(","), ...rows].join("\n") + "\n";
+}
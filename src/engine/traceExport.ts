@@ -0,0 +1,86 @@
+/**
+ * Exportación del trace (timeline) a CSV / JSON para analizarlo en hoja de
+ * cálculo o Python. Incluye todas las salidas del modelo, los parámetros y
+ * los metadatos de la ejecución.
+ */
+import type { SessionConfig } from "./config";
+import type { TracePoint } from "./model";
+
+export type RunMeta = {
+  app: string;
+  exportedAt: string; // ISO 8601
+  dtMin: number; // paso fijo de integración
+  tStartMin: number;
+  tEndMin: number;
+  points: number;
+  config: SessionConfig; // preset, params, pauta, semilla…
+};
+
+export function runMeta(
+  trace: readonly TracePoint[],
+  config: SessionConfig,
+  dtMin: number,
+): RunMeta {
+  return {
+    app: "nicotina_app",
+    exportedAt: new Date().toISOString(),
+    dtMin,
+    tStartMin: trace[0]?.t ?? 0,
+    tEndMin: trace.at(-1)?.t ?? 0,
+    points: trace.length,
+    config,
+  };
+}
+
+// Columnas planas (una fila por punto del trace)
+const COLUMNS: [string, (p: TracePoint) => number | boolean][] = [
+  ["t_min", (p) => p.t],
+  ["da", (p) => p.da],
+  ["gaba", (p) => p.gaba],
+  ["direct", (p) => p.direct],
+  ["indirect", (p) => p.indirect],
+  ["ach_drive", (p) => p.achDrive],
+  ["glu_drive", (p) => p.gluDrive],
+  ["alpha7_ach_on", (p) => p.alpha7AchOn],
+  ["alpha7_glu_on", (p) => p.alpha7GluOn],
+  ["nicotine", (p) => p.nic],
+  ["plasma", (p) => p.plasma],
+  ["da_basal", (p) => p.poolDA.basal],
+  ["da_activado", (p) => p.poolDA.activado],
+  ["da_desens", (p) => p.poolDA.desens],
+  ["gaba_basal", (p) => p.poolGABA.basal],
+  ["gaba_activado", (p) => p.poolGABA.activado],
+  ["gaba_desens", (p) => p.poolGABA.desens],
+  ["density_da", (p) => p.density.da],
+  ["density_gaba", (p) => p.density.gaba],
+  ["des_all", (p) => p.desAll],
+  ["craving", (p) => p.craving],
+  ["varenicline", (p) => p.drugs.varenicline],
+  ["mecamylamine", (p) => p.drugs.mecamylamine],
+  ["puff", (p) => p.puff],
+];
+
+const cell = (v: number | boolean) =>
+  typeof v === "boolean" ? (v ? "1" : "0") : String(+v.toFixed(6));
+
+/**
+ * CSV con cabecera de metadatos en líneas `# …`
+ * (p.ej. `pandas.read_csv(f, comment="#")`).
+ */
+export function traceToCsv(trace: readonly TracePoint[], meta: RunMeta) {
+  const lines = [
+    `# app: ${meta.app}`,
+    `# exportedAt: ${meta.exportedAt}`,
+    `# dtMin: ${meta.dtMin}`,
+    `# preset: ${meta.config.preset}`,
+    `# seed: ${meta.config.seed}`,
+    `# config: ${JSON.stringify(meta.config)}`,
+    COLUMNS.map(([name]) => name).join(","),
+    ...trace.map((p) => COLUMNS.map(([, get]) => cell(get(p))).join(",")),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+export function traceToJson(trace: readonly TracePoint[], meta: RunMeta) {
+  return JSON.stringify({ meta, trace }, null, 2);
+}
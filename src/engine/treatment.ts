@@ -0,0 +1,69 @@
+/**
+ * Puff de cigarrillo bajo tratamiento: un día de pauta (fármaco o parche)
+ * sin fumar y después un único puff. Compara la respuesta DA entre
+ * tratamientos con los mismos parámetros.
+ */
+import { summarizeTrace, type TraceSummary } from "./compare";
+import { DEFAULT_REGIMEN, DRUG_IDS, DRUGS, type DrugRegimen } from "./drugs";
+import { INITIAL_STATE, type ModelParams, type TracePoint } from "./model";
+import { DEFAULT_DELIVERY, ROUTES, type Delivery } from "./routes";
+import { simulate } from "./simulate";
+
+export type Treatment = { id: string; label: string; delivery: Delivery };
+
+export type TreatmentResponse = {
+  treatment: Treatment;
+  daBefore: number; // DA justo antes del puff
+  cravingBefore: number;
+  trace: TracePoint[]; // t desde el puff
+  summary: TraceSummary;
+};
+
+// Solo un fármaco activo, con su pauta por defecto desde t = 0
+const only = (id: keyof DrugRegimen): DrugRegimen => ({
+  ...DEFAULT_REGIMEN,
+  [id]: { ...DEFAULT_REGIMEN[id], on: true },
+});
+
+/** Sin tratamiento, TSN (parche) y cada fármaco con su pauta por defecto. */
+export const TREATMENTS: Treatment[] = [
+  { id: "none", label: "Sin tratamiento", delivery: DEFAULT_DELIVERY },
+  {
+    id: "nrt",
+    label: "TSN (parche)",
+    delivery: { ...DEFAULT_DELIVERY, patchRate: ROUTES.patch.defaultDose },
+  },
+  ...DRUG_IDS.map((id) => ({
+    id,
+    label: DRUGS[id].label,
+    delivery: { ...DEFAULT_DELIVERY, drugs: only(id) },
+  })),
+];
+
+export function puffUnderTreatment(
+  treatment: Treatment,
+  params: ModelParams,
+  pretreatMin = 24 * 60,
+  durationMin = 60,
+  dtMin = 0.5,
+): TreatmentResponse {
+  const delivery = { ...treatment.delivery, route: "cigarette" as const };
+  const pre = simulate([], params, pretreatMin, dtMin, INITIAL_STATE, delivery);
+  const t0 = pre.final.t;
+  const { trace } = simulate(
+    [{ t: t0, dose: params.puffDose }],
+    params,
+    durationMin,
+    dtMin,
+    pre.final,
+    delivery,
+  );
+  const shifted = trace.map((p) => ({ ...p, t: p.t - t0 }));
+  return {
+    treatment,
+    daBefore: pre.final.da,
+    cravingBefore: pre.final.craving,
+    trace: shifted,
+    summary: summarizeTrace(shifted),
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Upregulation de α4β2 (escala de días): la desensibilización repetida hace
+ * crecer la densidad total de receptores y la abstinencia la devuelve a 1.
+ *
+ *   dD/dt = up·desens·(Dmax − D)/(Dmax − 1) − ln2/t½·(D − 1)
+ *
+ * Tasas en 1/día (se pasan a 1/min con el paso). Conceptual, no clínico.
+ */
+import type { ModelParams, ReceptorDensity, ReceptorPool } from "./model";
+import { MIN_PER_DAY } from "./schedule";
+
+function stepOne(
+  d: number,
+  desens: number,
+  dtDays: number,
+  params: ModelParams,
+): number {
+  const room = Math.max(0, params.maxDensity - d);
+  const span = Math.max(1e-6, params.maxDensity - 1);
+  const up = params.upregPerDay * desens * (room / span);
+  const down =
+    (Math.LN2 / Math.max(0.01, params.downregHalfLifeDays)) * (d - 1);
+  return Math.max(0, d + (up - down) * dtDays);
+}
+
+export function stepDensity(
+  density: ReceptorDensity,
+  poolDA: ReceptorPool,
+  poolGABA: ReceptorPool,
+  dtMin: number,
+  params: ModelParams,
+): ReceptorDensity {
+  const dtDays = dtMin / MIN_PER_DAY;
+  return {
+    da: stepOne(density.da, poolDA.desens, dtDays, params),
+    gaba: stepOne(density.gaba, poolGABA.desens, dtDays, params),
+  };
+}
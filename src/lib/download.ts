@@ -0,0 +1,19 @@
+/** Descarga `content` como archivo (sin servidor: Blob + <a download>). */
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadText(
+  filename: string,
+  content: string,
+  mime = "application/json",
+) {
+  downloadBlob(filename, new Blob([content], { type: mime }));
+}
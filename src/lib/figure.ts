@@ -0,0 +1,131 @@
+/**
+ * Figuras para diapositivas: SVG autónomo (estilos incrustados, animaciones
+ * congeladas) y PNG de alta resolución a partir de los SVG en pantalla.
+ */
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Fondo de las tarjetas (bg-slate-50) y texto del pie
+const BACKGROUND = "#f8fafc";
+const CAPTION_COLOR = "#334155";
+const CAPTION_LINE = 18;
+const GAP = 16;
+
+// Propiedades que vienen de clases CSS (Tailwind) y no de atributos
+const TEXT_PROPS = [
+  "font-family",
+  "font-size",
+  "font-weight",
+  "font-variant-numeric",
+] as const;
+
+export type Figure = { svg: string; width: number; height: number };
+
+/** Copia del SVG sin clases, con fuentes en línea y sin animaciones. */
+function freeze(svg: SVGSVGElement): SVGSVGElement {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const src = [svg, ...svg.querySelectorAll("*")];
+  const dst = [clone, ...clone.querySelectorAll("*")];
+
+  src.forEach((el, i) => {
+    const out = dst[i] as SVGElement;
+    if (el === svg || el.tagName === "text" || el.tagName === "tspan") {
+      const cs = getComputedStyle(el);
+      for (const p of TEXT_PROPS)
+        out.style.setProperty(p, cs.getPropertyValue(p));
+    }
+    // Estado congelado: sin flow/pulse (dashoffset 0, escala 1)
+    out.style.removeProperty("animation");
+    out.removeAttribute("class");
+  });
+  clone.querySelectorAll("style").forEach((s) => s.remove());
+  return clone;
+}
+
+/**
+ * Apila uno o varios SVG (mismo ancho) y añade un pie opcional.
+ * Devuelve el texto del SVG autónomo y su tamaño en unidades de viewBox.
+ */
+export function composeFigure(
+  parts: SVGSVGElement[],
+  caption: string[] = [],
+): Figure {
+  const width = Math.max(...parts.map((p) => p.viewBox.baseVal.width));
+  const root = document.createElementNS(SVG_NS, "svg");
+  root.setAttribute("xmlns", SVG_NS);
+
+  const bg = document.createElementNS(SVG_NS, "rect");
+  bg.setAttribute("width", "100%");
+  bg.setAttribute("height", "100%");
+  bg.setAttribute("fill", BACKGROUND);
+  root.appendChild(bg);
+
+  let y = 0;
+  parts.forEach((part, i) => {
+    const vb = part.viewBox.baseVal;
+    const h = (vb.height * width) / vb.width;
+    const frozen = freeze(part);
+    frozen.setAttribute("x", "0");
+    frozen.setAttribute("y", String(y));
+    frozen.setAttribute("width", String(width));
+    frozen.setAttribute("height", String(h));
+    root.appendChild(frozen);
+    if (i === 0) {
+      root.style.fontFamily = frozen.style.fontFamily;
+    }
+    y += h + (i < parts.length - 1 ? GAP : 0);
+  });
+
+  if (caption.length > 0) {
+    y += 8;
+    for (const line of caption) {
+      y += CAPTION_LINE;
+      const text = document.createElementNS(SVG_NS, "text");
+      text.setAttribute("x", "16");
+      text.setAttribute("y", String(y - 5));
+      text.setAttribute("font-size", "13");
+      text.setAttribute("fill", CAPTION_COLOR);
+      text.textContent = line;
+      root.appendChild(text);
+    }
+    y += 8;
+  }
+
+  root.setAttribute("viewBox", `0 0 ${width} ${y}`);
+  root.setAttribute("width", String(width));
+  root.setAttribute("height", String(y));
+  return {
+    svg: new XMLSerializer().serializeToString(root),
+    width,
+    height: y,
+  };
+}
+
+/** Rasteriza la figura a PNG (`scale` = píxeles por unidad, p.ej. 3 ≈ 300 dpi). */
+export async function figureToPng(fig: Figure, scale = 3): Promise<Blob> {
+  const url = URL.createObjectURL(
+    new Blob([fig.svg], { type: "image/svg+xml" }),
+  );
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(fig.width * scale);
+    canvas.height = Math.round(fig.height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("El navegador no permite generar PNG.");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (b) =>
+          b ? resolve(b) : reject(new Error("No se pudo generar el PNG.")),
+        "image/png",
+      ),
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
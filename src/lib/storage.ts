@@ -0,0 +1,69 @@
+import {
+  parseLibrary,
+  serializeLibrary,
+  withBuiltins,
+} from "../engine/presetLibrary";
+import type { PresetDef } from "../engine/presets";
+import {
+  parseSession,
+  serializeSession,
+  type SessionSnapshot,
+} from "../engine/session";
+
+/** Clave del autoguardado en localStorage. */
+const SESSION_KEY = "nicotina_app.session";
+
+/** Sesión autoguardada (null si no hay o no es válida: se descarta). */
+export function loadSession(): SessionSnapshot | null {
+  try {
+    const text = localStorage.getItem(SESSION_KEY);
+    return text == null ? null : parseSession(text);
+  } catch {
+    clearSession();
+    return null;
+  }
+}
+
+/**
+ * Guarda la sesión. Devuelve null si se guardó o el motivo si no (cuota
+ * llena, modo privado) para avisar: la sesión anterior queda como estaba.
+ */
+export function saveSession(s: SessionSnapshot): string | null {
+  try {
+    localStorage.setItem(SESSION_KEY, serializeSession(s));
+    return null;
+  } catch (e) {
+    return e instanceof DOMException && e.name === "QuotaExceededError"
+      ? "La sesión no cabe en el almacenamiento del navegador: no se ha guardado."
+      : "El navegador no permite guardar la sesión (¿modo privado?).";
+  }
+}
+
+export function clearSession() {
+  try {
+    localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // idem
+  }
+}
+
+/** Clave de la biblioteca de presets del docente. */
+const PRESETS_KEY = "nicotina_app.presets";
+
+/** Biblioteca guardada (siempre con los de serie). */
+export function loadPresets(): PresetDef[] {
+  try {
+    const text = localStorage.getItem(PRESETS_KEY);
+    return withBuiltins(text == null ? [] : parseLibrary(text));
+  } catch {
+    return withBuiltins([]);
+  }
+}
+
+export function savePresets(library: readonly PresetDef[]) {
+  try {
+    localStorage.setItem(PRESETS_KEY, serializeLibrary(library));
+  } catch {
+    // idem
+  }
+}